@@ -1,4 +1,10 @@
 declare module "clawdbot/plugin-sdk" {
+  export interface AgentHookContext {
+    agentId?: string;
+    sessionKey?: string;
+    workspaceDir?: string;
+  }
+
   export interface ClawdbotPluginApi {
     id: string;
     name: string;
@@ -77,9 +83,12 @@ declare module "clawdbot/plugin-sdk" {
 
     on(
       event: "before_agent_start",
-      handler: (event: {
-        prompt: string;
-      }) => Promise<
+      handler: (
+        event: {
+          prompt: string;
+        },
+        ctx: AgentHookContext,
+      ) => Promise<
         | { prependContext?: string; systemPromptAppend?: string }
         | undefined
         | void
@@ -88,10 +97,15 @@ declare module "clawdbot/plugin-sdk" {
 
     on(
       event: "agent_end",
-      handler: (event: {
-        success: boolean;
-        messages: unknown[];
-      }) => Promise<void>,
+      handler: (
+        event: {
+          success: boolean;
+          messages: unknown[];
+          /** Why the run failed, when `success` is false. */
+          error?: string;
+        },
+        ctx: AgentHookContext,
+      ) => Promise<void>,
     ): void;
 
     on(event: string, handler: (...args: unknown[]) => unknown): void;
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { ClawdbotPluginApi } from "clawdbot/plugin-sdk";
+import musePlugin, { registerContextProvider } from "./index.js";
+
+type Handler = (event: unknown, ctx: unknown) => Promise<unknown>;
+
+const FIXTURE_TEXT = "Run migrations against the staging database first";
+
+registerContextProvider({
+  name: "fixture",
+  minDepth: "minimal",
+  async fetch() {
+    return {
+      sections: [{
+        name: "fixture",
+        heading: "Fixture:",
+        priority: 10,
+        items: [{ id: "kb:fixture-1", text: FIXTURE_TEXT }],
+      }],
+    };
+  },
+});
+
+/** Register the plugin against a stub API and return its hook handlers. */
+function loadPlugin(pluginConfig: Record<string, unknown>): Map<string, Handler> {
+  const handlers = new Map<string, Handler>();
+  const quiet = { info() {}, warn() {}, error() {}, debug() {} };
+  const api: ClawdbotPluginApi = {
+    id: "muse",
+    name: "Muse",
+    version: "test",
+    description: "",
+    source: "test",
+    config: {},
+    pluginConfig,
+    runtime: { tools: {} },
+    logger: quiet,
+    registerTool() {},
+    registerCli() {},
+    registerService() {},
+    // Hook handlers are typed per hook name; the stub keeps them all in one map
+    on(event: string, handler: (...args: never[]) => unknown) {
+      handlers.set(event, handler as Handler);
+    },
+  };
+  musePlugin.register(api);
+  return handlers;
+}
+
+async function turn(handlers: Map<string, Handler>, sessionKey: string): Promise<string> {
+  const result = await handlers.get("before_agent_start")!(
+    { prompt: "how should I run the database migrations?" },
+    { sessionKey },
+  );
+  await handlers.get("agent_end")!({ success: true, messages: [] }, { sessionKey });
+  if (!result || typeof result !== "object" || !("prependContext" in result)) return "";
+  return typeof result.prependContext === "string" ? result.prependContext : "";
+}
+
+test("a later turn in the same session does not re-inject the same ids", async () => {
+  const handlers = loadPlugin({ contextProviders: ["fixture"], autoCapture: false });
+
+  const first = await turn(handlers, "session-a");
+  assert.ok(first.includes(FIXTURE_TEXT), "first turn injects the item");
+
+  const second = await turn(handlers, "session-a");
+  assert.ok(!second.includes(FIXTURE_TEXT), "second turn does not repeat the item");
+
+  const otherSession = await turn(handlers, "session-b");
+  assert.ok(otherSession.includes(FIXTURE_TEXT), "another session still gets the item");
+});
@@ -1,8 +1,79 @@
 import { Type } from "@sinclair/typebox";
 import type { ClawdbotPluginApi } from "clawdbot/plugin-sdk";
-import { ensureInstalled, checkAuthStatus, run, runJson, runText } from "./lib/tribe-runner.js";
+import {
+  ensureInstalled,
+  checkAuthStatus,
+  configureRunner,
+  getAuthDetail,
+  invalidateAuth,
+  parseCircuitStatus,
+  parseEvents,
+  parseInsights,
+  parseKBDocument,
+  parseMuseAgents,
+  parseMuseStatus,
+  parseSessions,
+  run,
+  runJson,
+  runText,
+  runnerStats,
+  type AuthDetail,
+  type ResponseParser,
+  type RunnerStats,
+  type TimeoutCategory,
+} from "./lib/tribe-runner.js";
+import {
+  checkCLIVersion,
+  describeCompatibility,
+  featureUnavailable,
+  fullySupported,
+  type CLIFeature,
+} from "./lib/cli-version.js";
 import { buildContext, invalidateCache, type ContextDepth } from "./lib/context-builder.js";
-import { captureConversation } from "./lib/knowledge-capture.js";
+import { configureCaptureDedupe, type CaptureDedupeMode } from "./lib/capture-dedupe.js";
+import {
+  configureOutbox,
+  MAX_ATTEMPTS,
+  outboxStatus,
+  requeueDeadLetters,
+  type OutboxEntry,
+} from "./lib/capture-outbox.js";
+import {
+  configureReviewQueue,
+  editPendingCapture,
+  getPendingCapture,
+  listPendingCaptures,
+  removePendingCapture,
+  type PendingCapture,
+} from "./lib/capture-review.js";
+import { configureCapturePolicy, type CapturePolicy } from "./lib/capture-policy.js";
+import {
+  configureCategories,
+  normalizeCategoryName,
+  type CategoryTaxonomy,
+} from "./lib/categorizer.js";
+import { configureContextCache } from "./lib/context-cache.js";
+import { formatInjectionRecord, recentInjections } from "./lib/context-history.js";
+import { getInjected, recordInjected } from "./lib/injection-tracker.js";
+import {
+  describeMeta,
+  hasFilter,
+  matchesFilter,
+  parseEnvelope,
+  type KBEntryFilter,
+} from "./lib/kb-envelope.js";
+import {
+  configureKBIndex,
+  ensureKBIndex,
+  listKBIndex,
+  refreshKBIndex,
+  removeFromKBIndex,
+  searchKBIndex,
+} from "./lib/kb-index.js";
+import { approvePendingCapture, captureConversation, replayOutbox } from "./lib/knowledge-capture.js";
+import { classifyPrompt } from "./lib/prompt-classifier.js";
+import { configureRedaction, describeRedactions, redact } from "./lib/redaction.js";
+import { configureTagDictionary, type TagDictionary } from "./lib/tags.js";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -17,12 +88,128 @@ type ToolDef = {
     _id: string,
     params: Record<string, unknown>,
   ) => Promise<{ content: Array<{ type: "text"; text: string }>; details?: unknown }>;
+  /** CLI command group the tool is built on; gated on the installed version. */
+  requires?: CLIFeature;
 };
 
+/** Mark every tool of a factory as built on a CLI command group. */
+function requiring(feature: CLIFeature, tools: ToolDef[]): ToolDef[] {
+  return tools.map((tool) => ({ ...tool, requires: feature }));
+}
+
 function textResult(text: string, details?: unknown) {
   return { content: [{ type: "text" as const, text }], details };
 }
 
+function kbFilterFrom(params: Record<string, unknown>): KBEntryFilter {
+  const str = (v: unknown) => (v === undefined || v === "" ? undefined : String(v));
+  return {
+    category: str(params.category),
+    tag: str(params.tag),
+    project: str(params.project),
+    branch: str(params.branch),
+    sessionKey: str(params.sessionKey),
+    since: str(params.since),
+  };
+}
+
+/**
+ * Parse mirrored KB documents, keep those matching the filter and render
+ * them with their metadata.
+ */
+function formatFilteredKB(
+  documents: Array<{ id: string; category?: string; content: string }>,
+  filter: KBEntryFilter,
+  limit?: number,
+) {
+  const entries = documents
+    .map((doc) => ({ id: doc.id, ...parseEnvelope(doc.content) }))
+    .filter((entry) => matchesFilter(entry.meta, filter))
+    .slice(0, limit ?? Infinity);
+
+  if (entries.length === 0) return textResult("No knowledge base entries match the filter.");
+
+  const text = entries
+    .map((entry) => {
+      const body = entry.body.length > 200 ? entry.body.slice(0, 200) + "..." : entry.body;
+      const meta = entry.meta ? `\n    ${describeMeta(entry.meta)}` : "";
+      return `- ${entry.id}${meta}\n    ${body.replace(/\n+/g, " ")}`;
+    })
+    .join("\n");
+  return textResult(text, entries);
+}
+
+/**
+ * Run a listing command in the requested format. JSON is validated and
+ * normalized, so it has the same shape whichever CLI source answered; text
+ * passes through as the CLI wrote it.
+ */
+async function formattedResult<T>(
+  args: string[],
+  format: unknown,
+  parse: ResponseParser<T>,
+  timeout: TimeoutCategory,
+) {
+  if (format === "json") {
+    const data = await runJson(args, { timeout, parse });
+    return textResult(JSON.stringify(data, null, 2), data);
+  }
+  if (format) args.push("--format", String(format));
+  return textResult(await runText(args, { timeout }));
+}
+
+/** Auth state as a sentence, with whatever identity the CLI reported. */
+function describeAuth(auth: AuthDetail): string {
+  if (auth.state === "not-installed") return "TRIBE CLI is not installed.";
+  if (auth.state === "not-authenticated") {
+    return "Not authenticated. Run 'tribe login' in your terminal to log in.";
+  }
+  const who = [auth.user && `as ${auth.user}`, auth.org && `(${auth.org})`].filter(Boolean);
+  const expiry = auth.expiresAt ? `; token expires ${auth.expiresAt}` : "";
+  return `Authenticated${who.length > 0 ? ` ${who.join(" ")}` : ""}${expiry}.`;
+}
+
+/** CLI process pool summary for muse_status. */
+function describeRunnerStats(stats: RunnerStats): string {
+  const queued = Object.values(stats.queued).reduce((sum, n) => sum + n, 0);
+  const waits = Object.entries(stats.waits)
+    .filter(([, w]) => w.count > 0)
+    .map(([priority, w]) => `${priority} avg ${w.avgMs}ms / max ${w.maxMs}ms`);
+  return (
+    `CLI processes: ${stats.running}/${stats.maxConcurrent} running, ${queued} queued` +
+    `${queued > 0 ? ` (oldest waiting ${stats.oldestWaitMs}ms)` : ""}; ` +
+    `${stats.spawned} started, ${stats.coalesced} calls shared a running one` +
+    `${waits.length > 0 ? `\nQueue wait: ${waits.join(", ")}` : ""}`
+  );
+}
+
+/** One-line description of a pending capture for the review list. */
+function describePending(item: PendingCapture): string {
+  const firstLine = item.body.split("\n")[0];
+  const preview = firstLine.length > 120 ? firstLine.slice(0, 120) + "..." : firstLine;
+  const notes = [
+    item.meta.project,
+    item.related && `continues a recent capture (${Math.round(item.related.similarity * 100)}% similar)`,
+    item.editedAt && "edited",
+  ].filter(Boolean);
+  return (
+    `- ${item.id} [${item.meta.category}] ${item.meta.tags.join(", ") || "no tags"} — queued ${item.queuedAt}` +
+    `${notes.length > 0 ? ` (${notes.join("; ")})` : ""}\n    ${preview}`
+  );
+}
+
+/** One-line description of an outbox entry for the status tool. */
+function describeOutboxEntry(entry: OutboxEntry): string {
+  const { meta, body } = parseEnvelope(entry.content);
+  const firstLine = body.split("\n")[0];
+  const preview = firstLine.length > 100 ? firstLine.slice(0, 100) + "..." : firstLine;
+  const when = entry.deadAt ? `gave up ${entry.deadAt}` : `next attempt ${entry.nextAttemptAt}`;
+  return (
+    `- [${meta?.category ?? entry.category}] captured ${entry.capturedAt} — ` +
+    `${entry.attempts}/${MAX_ATTEMPTS} attempts, ${when}\n    last error: ${entry.lastError}\n    ${preview}`
+  );
+}
+
 // Shared parameter fragments
 const formatParam = Type.Optional(
   Type.String({ description: "Output format: json or text (default: text)" }),
@@ -43,6 +230,19 @@ const toolFilterParam = Type.Optional(
 const projectFilterParam = Type.Optional(
   Type.String({ description: "Filter by project path (partial match)" }),
 );
+// Metadata filters for KB entries captured by Muse
+const kbFilterParams = {
+  category: Type.Optional(Type.String({ description: "Filter by category (e.g. debugging)" })),
+  tag: Type.Optional(Type.String({ description: "Filter by tag (e.g. typescript)" })),
+  project: projectFilterParam,
+  branch: Type.Optional(Type.String({ description: "Filter by git branch at capture time" })),
+  sessionKey: Type.Optional(
+    Type.String({ description: "Filter by the Moltbot session that captured the entry" }),
+  ),
+  since: Type.Optional(
+    Type.String({ description: "Only entries captured on or after this date (ISO 8601)" }),
+  ),
+};
 
 // ---------------------------------------------------------------------------
 // Tool Factories
@@ -127,11 +327,19 @@ function setupTools(): ToolDef[] {
           lines.push("TRIBE CLI is installed.");
         }
 
-        // Step 2: Check authentication
-        const authStatus = await checkAuthStatus();
+        // A fresh install or upgrade changes what the CLI can do
+        const compat = await checkCLIVersion(true);
+        if (!fullySupported(compat)) {
+          lines.push(describeCompatibility(compat));
+          lines.push("");
+        }
+
+        // Step 2: Check authentication — freshly, since setup is often run
+        // right after logging in
+        const auth = await getAuthDetail({ refresh: true });
 
-        if (authStatus === "authenticated") {
-          lines.push("Authentication: Logged in.");
+        if (auth.state === "authenticated") {
+          lines.push(`Authentication: Logged in${auth.user ? ` as ${auth.user}` : ""}.`);
           lines.push("");
 
           // Step 3: Check telemetry status
@@ -195,11 +403,13 @@ function telemetryTools(): ToolDef[] {
       name: "muse_status",
       label: "Muse Status",
       description:
-        "Show Muse telemetry collection status including sync state and connected tools.",
+        "Show Muse telemetry collection status including sync state and connected tools, " +
+        "and how busy the plugin's CLI process pool is.",
       parameters: Type.Object({}),
       async execute() {
         const out = await runText(["status"]);
-        return textResult(out);
+        const stats = runnerStats();
+        return textResult(`${out.trimEnd()}\n\n${describeRunnerStats(stats)}`, { runner: stats });
       },
     },
     {
@@ -208,8 +418,9 @@ function telemetryTools(): ToolDef[] {
       description: "Show Muse CLI version and build configuration.",
       parameters: Type.Object({}),
       async execute() {
-        const out = await runText(["version"]);
-        return textResult(out);
+        // Both run `tribe version`, so they share one process
+        const [out, compat] = await Promise.all([runText(["version"]), checkCLIVersion(true)]);
+        return textResult(`${out.trimEnd()}\n\n${describeCompatibility(compat)}`, compat);
       },
     },
   ];
@@ -224,10 +435,12 @@ function authTools(): ToolDef[] {
         "Check if the user is authenticated with Muse. Returns auth state without triggering login.",
       parameters: Type.Object({}),
       async execute(_id, _params) {
-        // Run status which shows auth state; avoid 'login' which opens browser
-        const result = await run(["status"], { timeout: "fast" });
-        const isAuthed = !result.stdout.includes("Not authenticated");
-        return textResult(result.stdout, { authenticated: isAuthed });
+        // Ask `status` afresh; 'login' would open a browser
+        const auth = await getAuthDetail({ refresh: true });
+        return textResult(describeAuth(auth), {
+          authenticated: auth.state === "authenticated",
+          ...auth,
+        });
       },
     },
     {
@@ -237,6 +450,7 @@ function authTools(): ToolDef[] {
       parameters: Type.Object({}),
       async execute() {
         const out = await runText(["logout"], { timeout: "fast" });
+        invalidateAuth();
         return textResult(out);
       },
     },
@@ -326,9 +540,7 @@ function searchTools(): ToolDef[] {
         if (params.timeRange) args.push("--time-range", String(params.timeRange));
         if (params.tool) args.push("--tool", String(params.tool));
         if (params.project) args.push("--project", String(params.project));
-        if (params.format) args.push("--format", String(params.format));
-        const out = await runText(args, { timeout: "default" });
-        return textResult(out);
+        return formattedResult(args, params.format, parseSessions, "default");
       },
     },
     {
@@ -342,9 +554,7 @@ function searchTools(): ToolDef[] {
       async execute(_id, params) {
         const args = ["-beta", "query", "insights"];
         if (params.limit) args.push("--limit", String(params.limit));
-        if (params.format) args.push("--format", String(params.format));
-        const out = await runText(args, { timeout: "default" });
-        return textResult(out);
+        return formattedResult(args, params.format, parseInsights, "default");
       },
     },
     {
@@ -359,9 +569,7 @@ function searchTools(): ToolDef[] {
       async execute(_id, params) {
         const args = ["-beta", "query", "events", "--session", String(params.sessionId)];
         if (params.limit) args.push("--limit", String(params.limit));
-        if (params.format) args.push("--format", String(params.format));
-        const out = await runText(args, { timeout: "default" });
-        return textResult(out);
+        return formattedResult(args, params.format, parseEvents, "default");
       },
     },
   ];
@@ -390,9 +598,7 @@ function sessionTools(): ToolDef[] {
         if (params.project) args.push("--project", String(params.project));
         if (params.search) args.push("--search", String(params.search));
         if (params.limit) args.push("--limit", String(params.limit));
-        if (params.format) args.push("--format", String(params.format));
-        const out = await runText(args, { timeout: "default" });
-        return textResult(out);
+        return formattedResult(args, params.format, parseSessions, "default");
       },
     },
     {
@@ -433,11 +639,25 @@ function kbTools(): ToolDef[] {
     {
       name: "muse_kb_search",
       label: "Muse KB Search",
-      description: "Search the Muse knowledge base for relevant documents.",
+      description:
+        "Search the Muse knowledge base for relevant documents. " +
+        "Metadata filters apply to entries captured by Muse and search the local KB mirror.",
       parameters: Type.Object({
         query: Type.String({ description: "Search query" }),
+        limit: limitParam,
+        ...kbFilterParams,
       }),
       async execute(_id, params) {
+        const filter = kbFilterFrom(params);
+        if (hasFilter(filter)) {
+          await ensureKBIndex();
+          const hits = await searchKBIndex(String(params.query), Infinity);
+          return formatFilteredKB(
+            (hits ?? []).map((hit) => ({ id: hit.id, category: hit.category, content: hit.text })),
+            filter,
+            params.limit ? Number(params.limit) : undefined,
+          );
+        }
         const out = await runText(
           ["-beta", "kb", "search", String(params.query)],
           { timeout: "default" },
@@ -448,9 +668,21 @@ function kbTools(): ToolDef[] {
     {
       name: "muse_kb_list",
       label: "Muse KB List",
-      description: "List all documents in the Muse knowledge base.",
-      parameters: Type.Object({}),
-      async execute() {
+      description:
+        "List all documents in the Muse knowledge base, optionally filtered by capture metadata.",
+      parameters: Type.Object({
+        limit: limitParam,
+        ...kbFilterParams,
+      }),
+      async execute(_id, params) {
+        const filter = kbFilterFrom(params);
+        if (hasFilter(filter)) {
+          return formatFilteredKB(
+            await listKBIndex(),
+            filter,
+            params.limit ? Number(params.limit) : undefined,
+          );
+        }
         const out = await runText(["-beta", "kb", "list"], { timeout: "default" });
         return textResult(out);
       },
@@ -463,11 +695,17 @@ function kbTools(): ToolDef[] {
         content: Type.String({ description: "Content to save to the knowledge base" }),
       }),
       async execute(_id, params) {
+        const redaction = redact(String(params.content));
         const out = await runText(
-          ["-beta", "kb", "save", String(params.content)],
+          ["-beta", "kb", "save", redaction.text],
           { timeout: "default" },
         );
-        return textResult(out);
+        // Cached KB searches predate the new document; pull it into the
+        // local search index too
+        invalidateCache();
+        refreshKBIndex().catch(() => {});
+        if (redaction.count === 0) return textResult(out);
+        return textResult(`${out.trimEnd()}\n(${describeRedactions(redaction)} before saving)`);
       },
     },
     {
@@ -478,11 +716,19 @@ function kbTools(): ToolDef[] {
         docId: Type.String({ description: "Document ID" }),
       }),
       async execute(_id, params) {
-        const out = await runText(
+        const doc = await runJson(
           ["-beta", "kb", "get", String(params.docId)],
-          { timeout: "fast" },
+          { timeout: "fast", parse: parseKBDocument },
         );
-        return textResult(out);
+        // Entries captured by Muse get their metadata shown as a readable
+        // header instead of the raw envelope
+        const { meta, body } = parseEnvelope(doc.content);
+        const header = meta
+          ? describeMeta(meta)
+          : [doc.category && `category ${doc.category}`, doc.updatedAt && `updated ${doc.updatedAt}`]
+              .filter(Boolean)
+              .join("; ");
+        return textResult(header ? `${header}\n\n${body}` : body, { id: doc.id, meta });
       },
     },
     {
@@ -497,6 +743,9 @@ function kbTools(): ToolDef[] {
           ["-beta", "kb", "delete", String(params.docId)],
           { timeout: "fast" },
         );
+        // Cached KB searches may still return the deleted document
+        invalidateCache();
+        await removeFromKBIndex(String(params.docId));
         return textResult(out);
       },
     },
@@ -513,6 +762,146 @@ function kbTools(): ToolDef[] {
   ];
 }
 
+function reviewTools(): ToolDef[] {
+  const captureIdParam = Type.String({ description: "Pending capture ID (from muse_review_list)" });
+  const notPending = (id: unknown) =>
+    textResult(`No pending capture ${String(id)} — it was approved, discarded or has expired.`);
+
+  return [
+    {
+      name: "muse_review_list",
+      label: "Muse Review List",
+      description:
+        "List captured insights waiting for review (captureMode: review), oldest first.",
+      parameters: Type.Object({}),
+      async execute() {
+        const items = await listPendingCaptures();
+        if (items.length === 0) return textResult("No captures are waiting for review.");
+        return textResult(items.map(describePending).join("\n"), items);
+      },
+    },
+    {
+      name: "muse_review_show",
+      label: "Muse Review Show",
+      description: "Show a pending capture in full: its summary, category, labels and tags.",
+      parameters: Type.Object({ id: captureIdParam }),
+      async execute(_id, params) {
+        const item = await getPendingCapture(String(params.id));
+        if (!item) return notPending(params.id);
+        return textResult(`${describeMeta(item.meta)}\n\n${item.body}`, item);
+      },
+    },
+    {
+      name: "muse_review_edit",
+      label: "Muse Review Edit",
+      description:
+        "Edit a pending capture before approving it: replace its summary, category or tags.",
+      parameters: Type.Object({
+        id: captureIdParam,
+        summary: Type.Optional(Type.String({ description: "New summary text" })),
+        category: Type.Optional(Type.String({ description: "New category (e.g. decision)" })),
+        tags: Type.Optional(
+          Type.Array(Type.String(), { description: "New tags, replacing the captured ones" }),
+        ),
+      }),
+      async execute(_id, params) {
+        const category =
+          params.category !== undefined ? normalizeCategoryName(String(params.category)) : undefined;
+        if (category === null) {
+          return textResult(
+            `"${String(params.category)}" isn't a usable category. Use a lowercase name of letters, ` +
+            "digits and hyphens (e.g. performance-tuning).",
+          );
+        }
+        const item = await editPendingCapture(String(params.id), {
+          body: params.summary !== undefined ? String(params.summary) : undefined,
+          category,
+          tags: Array.isArray(params.tags) ? params.tags.map(String) : undefined,
+        });
+        if (!item) return notPending(params.id);
+        return textResult(`Updated ${item.id}.\n\n${describeMeta(item.meta)}\n\n${item.body}`, item);
+      },
+    },
+    {
+      name: "muse_review_approve",
+      label: "Muse Review Approve",
+      description:
+        "Approve a pending capture and save it to the knowledge base (merged into the entry it continues, if any).",
+      parameters: Type.Object({ id: captureIdParam }),
+      async execute(_id, params) {
+        const stored = await approvePendingCapture(String(params.id));
+        if (!stored) return notPending(params.id);
+        if (stored.queued) {
+          return textResult(
+            `Approved ${String(params.id)}, but the KB save failed (${stored.queued}). ` +
+            "It is in the outbox and will be retried — see muse_outbox_status.",
+            stored,
+          );
+        }
+        return textResult(
+          stored.mergedInto
+            ? `Approved ${String(params.id)} and merged it into kb:${stored.mergedInto}.`
+            : `Approved ${String(params.id)} and saved it to the knowledge base.`,
+          stored,
+        );
+      },
+    },
+    {
+      name: "muse_review_discard",
+      label: "Muse Review Discard",
+      description: "Discard a pending capture without saving it.",
+      parameters: Type.Object({ id: captureIdParam }),
+      async execute(_id, params) {
+        const removed = await removePendingCapture(String(params.id));
+        if (!removed) return notPending(params.id);
+        return textResult(`Discarded ${String(params.id)}.`);
+      },
+    },
+  ];
+}
+
+function outboxTools(): ToolDef[] {
+  return [
+    {
+      name: "muse_outbox_status",
+      label: "Muse Outbox Status",
+      description:
+        "Show captures waiting in the outbox because the KB couldn't take them (CLI missing, logged out, " +
+        "save failed or timed out), with their retry schedule and dead letters.",
+      parameters: Type.Object({
+        retry: Type.Optional(
+          Type.Boolean({
+            description: "Give dead letters a fresh set of attempts and retry everything due now",
+          }),
+        ),
+      }),
+      async execute(_id, params) {
+        let note = "";
+        if (params.retry) {
+          const requeued = await requeueDeadLetters();
+          const replay = await replayOutbox();
+          note =
+            `Retried: ${replay.saved} saved, ${replay.retrying} still failing, ${replay.dead} dead` +
+            `${requeued > 0 ? ` (${requeued} dead letters re-queued)` : ""}.\n\n`;
+        }
+
+        const status = await outboxStatus();
+        if (status.pending.length === 0 && status.dead.length === 0) {
+          return textResult(`${note}The outbox is empty — every capture reached the knowledge base.`);
+        }
+        const sections = [
+          status.pending.length > 0 &&
+            `Pending (${status.pending.length}):\n${status.pending.map(describeOutboxEntry).join("\n")}`,
+          status.dead.length > 0 &&
+            `Dead letters (${status.dead.length}) — retry with retry: true:\n` +
+            status.dead.map(describeOutboxEntry).join("\n"),
+        ].filter(Boolean);
+        return textResult(note + sections.join("\n\n"), status);
+      },
+    },
+  ];
+}
+
 function orchestrationTools(): ToolDef[] {
   return [
     {
@@ -558,9 +947,7 @@ function orchestrationTools(): ToolDef[] {
       }),
       async execute(_id, params) {
         const args = ["-beta", "muse", "status"];
-        if (params.format) args.push("--format", String(params.format));
-        const out = await runText(args, { timeout: "fast" });
-        return textResult(out);
+        return formattedResult(args, params.format, parseMuseStatus, "fast");
       },
     },
     {
@@ -572,9 +959,7 @@ function orchestrationTools(): ToolDef[] {
       }),
       async execute(_id, params) {
         const args = ["-beta", "muse", "agents"];
-        if (params.format) args.push("--format", String(params.format));
-        const out = await runText(args, { timeout: "fast" });
-        return textResult(out);
+        return formattedResult(args, params.format, parseMuseAgents, "fast");
       },
     },
     {
@@ -644,10 +1029,12 @@ function circuitTools(): ToolDef[] {
       name: "muse_circuit_status",
       label: "Muse CIRCUIT Status",
       description: "Show a quick status summary of CIRCUIT autonomous agents.",
-      parameters: Type.Object({}),
-      async execute() {
-        const out = await runText(["-beta", "circuit", "status"], { timeout: "fast" });
-        return textResult(out);
+      parameters: Type.Object({
+        format: formatParam,
+      }),
+      async execute(_id, params) {
+        const args = ["-beta", "circuit", "status"];
+        return formattedResult(args, params.format, parseCircuitStatus, "fast");
       },
     },
     {
@@ -680,6 +1067,31 @@ function circuitTools(): ToolDef[] {
   ];
 }
 
+function contextTools(): ToolDef[] {
+  return [
+    {
+      name: "muse_context_explain",
+      label: "Muse Context Explain",
+      description:
+        "Explain what Muse injected as context for the latest turn: the prompt keywords searched, " +
+        "each KB document and session considered (with ids and scores), what the budget cut, and timings. " +
+        "Use the KB ids with muse_kb_get or muse_kb_delete to fix stale knowledge.",
+      parameters: Type.Object({
+        count: Type.Optional(
+          Type.Number({ description: "How many recent injections to show (default: 1)" }),
+        ),
+      }),
+      async execute(_id, params) {
+        const records = recentInjections(params.count ? Number(params.count) : 1);
+        if (records.length === 0) {
+          return textResult("No context injections recorded yet.");
+        }
+        return textResult(records.map(formatInjectionRecord).join("\n\n---\n\n"), records);
+      },
+    },
+  ];
+}
+
 // ---------------------------------------------------------------------------
 // Plugin
 // ---------------------------------------------------------------------------
@@ -708,12 +1120,130 @@ const musePlugin = {
         default: false,
         description: "Run tribe sync in background every 5 minutes",
       },
+      tribeBinary: {
+        type: "string" as const,
+        description:
+          "Path to the tribe CLI binary (~ expands to the home directory). Default: ~/.tribe/bin/tribe, then tribe on PATH",
+      },
+      cliConcurrency: {
+        type: "number" as const,
+        minimum: 1,
+        default: 4,
+        description:
+          "Most tribe CLI processes the plugin runs at once; further calls queue, context injection first",
+      },
       contextDepth: {
         type: "string" as const,
-        enum: ["minimal", "standard", "deep"] as const,
+        enum: ["minimal", "standard", "deep", "auto"] as const,
         default: "standard",
         description:
-          "How much TRIBE context to inject (minimal=recent sessions, standard=+KB, deep=+full session details)",
+          "How much TRIBE context to inject (minimal=recent sessions, standard=+KB, deep=+full session details, auto=chosen per prompt)",
+      },
+      contextProviders: {
+        type: "array" as const,
+        items: { type: "string" as const },
+        description:
+          "Context providers to run, in the order their sections appear (default: every registered provider). Built-in: sessions, knowledge, project, git",
+      },
+      contextBudget: {
+        type: "number" as const,
+        minimum: 0,
+        default: 1000,
+        description:
+          "Maximum size of the injected context in tokens (~4 chars each). Filled by priority: active project, then knowledge, then sessions",
+      },
+      captureMode: {
+        type: "string" as const,
+        enum: ["auto", "review"] as const,
+        default: "auto",
+        description:
+          "auto saves captured insights to the KB directly; review holds them in a local queue until approved with muse_review_approve",
+      },
+      captureReviewDays: {
+        type: "number" as const,
+        minimum: 1,
+        default: 14,
+        description: "Days a capture waits for review before it expires (captureMode: review)",
+      },
+      captureFailures: {
+        type: "boolean" as const,
+        default: false,
+        description:
+          "Also capture failed runs, as postmortem entries (goal, approaches tried, final error) that context injection surfaces as previously tried and failed",
+      },
+      capturePolicy: {
+        type: "object" as const,
+        additionalProperties: false,
+        properties: {
+          allowProjects: {
+            type: "array" as const,
+            items: { type: "string" as const },
+            description: "Project path globs that may be captured; when set, every other project is skipped",
+          },
+          denyProjects: {
+            type: "array" as const,
+            items: { type: "string" as const },
+            description: "Project path globs that are never captured (wins over allowProjects)",
+          },
+          minMessages: {
+            type: "number" as const,
+            minimum: 0,
+            description: "Fewest substantive user and assistant messages worth capturing",
+          },
+          minLength: {
+            type: "number" as const,
+            minimum: 0,
+            description: "Fewest characters across the substantive messages",
+          },
+          sampleRate: {
+            type: "number" as const,
+            minimum: 0,
+            maximum: 1,
+            description: "Fraction of eligible conversations to capture",
+          },
+          neverCategories: {
+            type: "array" as const,
+            items: { type: "string" as const },
+            description: "Categories never to capture, matched against the primary category and every label",
+          },
+        },
+        default: {},
+        description:
+          "Which conversations may be captured: project allow/deny globs, minimum size, sampling and excluded categories",
+      },
+      captureCategories: {
+        type: "object" as const,
+        additionalProperties: { type: "array" as const, items: { type: "string" as const } },
+        default: {},
+        description:
+          "Extra capture categories, or extra signals for built-in ones: category name -> signal terms (regular expressions matched as whole words)",
+      },
+      captureTags: {
+        type: "object" as const,
+        additionalProperties: { type: "array" as const, items: { type: "string" as const } },
+        default: {},
+        description:
+          "Extra technology tags, or extra terms for built-in ones: tag -> terms (regular expressions matched as whole words)",
+      },
+      captureDedupe: {
+        type: "string" as const,
+        enum: ["merge", "skip", "off"] as const,
+        default: "merge",
+        description:
+          "What to do when a capture repeats a recent one: merge related captures into the existing KB entry (exact repeats are skipped), skip all near-duplicates, or save everything",
+      },
+      redactPatterns: {
+        type: "array" as const,
+        items: { type: "string" as const },
+        default: [],
+        description:
+          "Extra regular expressions to redact before anything is saved to the KB (secrets, keys, JWTs, connection strings, emails and .env assignments are built in)",
+      },
+      redactAllowlist: {
+        type: "array" as const,
+        items: { type: "string" as const },
+        default: [],
+        description: "Regular expressions for values that must never be redacted",
       },
     },
   },
@@ -723,17 +1253,58 @@ const musePlugin = {
       autoContext?: boolean;
       autoCapture?: boolean;
       autoSync?: boolean;
-      contextDepth?: ContextDepth;
+      tribeBinary?: string;
+      cliConcurrency?: number;
+      contextDepth?: ContextDepth | "auto";
+      contextBudget?: number;
+      contextProviders?: string[];
+      captureMode?: "auto" | "review";
+      captureReviewDays?: number;
+      captureFailures?: boolean;
+      capturePolicy?: CapturePolicy;
+      captureCategories?: CategoryTaxonomy;
+      captureTags?: TagDictionary;
+      captureDedupe?: CaptureDedupeMode;
+      redactPatterns?: string[];
+      redactAllowlist?: string[];
     } | undefined;
 
+    configureRunner({ binary: pluginCfg?.tribeBinary, maxConcurrent: pluginCfg?.cliConcurrency });
+    const invalidPatterns = configureRedaction({
+      patterns: pluginCfg?.redactPatterns,
+      allowlist: pluginCfg?.redactAllowlist,
+    });
+    if (invalidPatterns.length > 0) {
+      api.logger.warn(`muse: ignoring invalid redaction patterns: ${invalidPatterns.join(", ")}`);
+    }
+    const rejectedPolicy = configureCapturePolicy(pluginCfg?.capturePolicy);
+    if (rejectedPolicy.length > 0) {
+      api.logger.warn(`muse: ignoring invalid capture policy settings: ${rejectedPolicy.join(", ")}`);
+    }
+    const rejectedCategories = configureCategories(pluginCfg?.captureCategories);
+    if (rejectedCategories.length > 0) {
+      api.logger.warn(`muse: ignoring invalid capture categories: ${rejectedCategories.join(", ")}`);
+    }
+    const rejectedTags = configureTagDictionary(pluginCfg?.captureTags);
+    if (rejectedTags.length > 0) {
+      api.logger.warn(`muse: ignoring invalid capture tags: ${rejectedTags.join(", ")}`);
+    }
+
     // -------------------------------------------------------------------
     // Startup health check — tell the user what's going on
     // -------------------------------------------------------------------
 
-    checkAuthStatus().then((status) => {
+    getAuthDetail().then(async ({ state: status, user, org }) => {
+      if (status !== "not-installed") {
+        const compat = await checkCLIVersion();
+        if (!fullySupported(compat)) api.logger.warn(`muse: ${describeCompatibility(compat)}`);
+        else api.logger.debug(`muse: ${describeCompatibility(compat)}`);
+      }
+
       if (status === "not-installed") {
         api.logger.warn(
-          "muse: TRIBE CLI not found. Use the muse_setup tool to install.",
+          `muse: TRIBE CLI not found at ${pluginCfg?.tribeBinary ?? "~/.tribe/bin/tribe"} or on PATH. ` +
+          "Use the muse_setup tool to install, or set tribeBinary.",
         );
       } else if (status === "not-authenticated") {
         api.logger.warn(
@@ -743,10 +1314,12 @@ const musePlugin = {
           "muse: Active in local-only mode (limited session data).",
         );
       } else {
-        api.logger.info("muse: TRIBE connected and authenticated.");
+        const who = [user && ` as ${user}`, org && ` (${org})`].filter(Boolean).join("");
+        api.logger.info(`muse: TRIBE connected and authenticated${who}.`);
         api.logger.info(
           `muse: autoContext=${pluginCfg?.autoContext ?? true}, ` +
-          `autoCapture=${pluginCfg?.autoCapture ?? true}, ` +
+          `autoCapture=${pluginCfg?.autoCapture ?? true}` +
+          `${pluginCfg?.captureMode === "review" ? " (review)" : ""}, ` +
           `depth=${pluginCfg?.contextDepth ?? "standard"}`,
         );
       }
@@ -764,9 +1337,12 @@ const musePlugin = {
       ...authTools(),
       ...searchTools(),
       ...sessionTools(),
-      ...kbTools(),
-      ...orchestrationTools(),
-      ...circuitTools(),
+      ...requiring("kb", kbTools()),
+      ...reviewTools(),
+      ...outboxTools(),
+      ...requiring("muse", orchestrationTools()),
+      ...requiring("circuit", circuitTools()),
+      ...contextTools(),
     ];
 
     for (const tool of allTools) {
@@ -781,12 +1357,25 @@ const musePlugin = {
             if (tool.name === "muse_setup") {
               return tool.execute(toolCallId, params);
             }
+            // Tools that only read plugin state work without the CLI
+            const localOnly = [
+              "muse_context_explain", "muse_review_list", "muse_review_show", "muse_review_edit",
+              "muse_review_discard", "muse_outbox_status",
+            ];
+            if (localOnly.includes(tool.name)) {
+              return tool.execute(toolCallId, params);
+            }
             const status = await checkAuthStatus();
             if (status === "not-installed") {
               return textResult(
                 "TRIBE CLI is not installed. Use the muse_setup tool to install it automatically.",
               );
             }
+            // Tools built on newer CLI commands explain the upgrade instead of failing
+            if (tool.requires) {
+              const unavailable = await featureUnavailable(tool.requires);
+              if (unavailable) return textResult(unavailable);
+            }
             // Let tools that work without auth proceed
             const noAuthRequired = [
               "muse_status", "muse_version", "muse_enable", "muse_disable", "muse_auth_status",
@@ -809,32 +1398,51 @@ const musePlugin = {
     // Layer 1: Context injection (before_agent_start)
     // -------------------------------------------------------------------
 
-    api.on("before_agent_start", async (event) => {
+    // Set by the muse-sync service once Moltbot hands us its workspace
+    let workspaceDir: string | undefined;
+
+    api.on("before_agent_start", async (event, ctx) => {
       if (pluginCfg?.autoContext === false) return;
       if (!event.prompt || event.prompt.length < 5) return;
 
       try {
-        const depth = pluginCfg?.contextDepth ?? "standard";
-        const context = await buildContext(event.prompt, depth);
+        const configuredDepth = pluginCfg?.contextDepth ?? "standard";
+        // In auto mode cheap follow-ups stay cheap and complex prompts get full history
+        const decision = configuredDepth === "auto" ? classifyPrompt(event.prompt) : null;
+        const depth = decision?.depth ?? (configuredDepth as ContextDepth);
+        const depthNote = decision
+          ? ` [auto: ${decision.kind} → ${depth}, KB ${decision.searchKB ? "on" : "off"}]`
+          : "";
+
+        const context = await buildContext(event.prompt, {
+          depth,
+          budgetTokens: pluginCfg?.contextBudget,
+          workspaceDir: ctx?.workspaceDir ?? workspaceDir,
+          alreadyInjected: ctx?.sessionKey ? getInjected(ctx.sessionKey) : undefined,
+          sessionKey: ctx?.sessionKey,
+          providers: pluginCfg?.contextProviders,
+        });
         if (!context) {
-          api.logger.debug("muse: no relevant context found for this prompt.");
+          api.logger.debug(`muse: no relevant context found for this prompt.${depthNote}`);
           return;
         }
 
-        // Count what we're injecting so the log is informative
-        const hasSessions = context.includes("Recent Activity:");
-        const hasKB = context.includes("Relevant Knowledge:");
-        const hasProject = context.includes("Active Project:");
-        const parts = [
-          hasSessions && "sessions",
-          hasKB && "knowledge",
-          hasProject && "project",
-        ].filter(Boolean);
+        // Report what we're injecting and what the budget cut so the log is informative
+        const { budget } = context;
+        const cut = Object.entries(budget.dropped)
+          .map(([section, count]) => `${count} ${section}`)
+          .join(", ");
+        const cutNote =
+          budget.trimmed > 0 || cut
+            ? `; trimmed ${budget.trimmed}, dropped ${cut || "none"}`
+            : "";
 
         api.logger.info(
-          `muse: injecting context (${parts.join(", ")}) — ${context.length} chars`,
+          `muse: injecting context (${context.sections.join(", ")}) — ` +
+          `${budget.usedChars}/${budget.limitChars} chars of budget${cutNote}${depthNote}`,
         );
-        return { prependContext: context };
+        if (ctx?.sessionKey) recordInjected(ctx.sessionKey, context.injected);
+        return { prependContext: context.text };
       } catch (err) {
         api.logger.warn(`muse: context injection failed: ${String(err)}`);
       }
@@ -844,11 +1452,19 @@ const musePlugin = {
     // Layer 2: Knowledge capture (agent_end)
     // -------------------------------------------------------------------
 
-    api.on("agent_end", async (event) => {
+    api.on("agent_end", async (event, ctx) => {
       if (pluginCfg?.autoCapture === false) return;
-      if (!event.success || !event.messages || event.messages.length === 0) return;
+      if (!event.messages || event.messages.length === 0) return;
+      // Failed runs are where "what didn't work" lives, but capturing them is opt-in
+      if (!event.success && !pluginCfg?.captureFailures) return;
 
-      captureConversation(event.messages, api.logger).catch(() => {
+      captureConversation(event.messages, api.logger, {
+        sessionKey: ctx?.sessionKey,
+        workspaceDir: ctx?.workspaceDir ?? workspaceDir,
+        dedupe: pluginCfg?.captureDedupe,
+        review: pluginCfg?.captureMode === "review",
+        failure: event.success ? undefined : { error: event.error },
+      }).catch(() => {
         // captureConversation logs internally
       });
     });
@@ -858,17 +1474,54 @@ const musePlugin = {
     // -------------------------------------------------------------------
 
     let syncInterval: ReturnType<typeof setInterval> | null = null;
+    let outboxInterval: ReturnType<typeof setInterval> | null = null;
+
+    const replayCaptures = () =>
+      replayOutbox()
+        .then((r) => {
+          if (r.saved > 0) api.logger.info(`muse: saved ${r.saved} queued capture(s) from the outbox.`);
+          if (r.dead > 0) {
+            api.logger.warn(
+              `muse: gave up on ${r.dead} queued capture(s) after ${MAX_ATTEMPTS} attempts — see muse_outbox_status.`,
+            );
+          }
+        })
+        .catch((err) => api.logger.debug(`muse: outbox replay failed: ${String(err)}`));
 
     api.registerService({
       id: "muse-sync",
-      start() {
+      start(ctx) {
+        // Remember where the agent works so context injection can scope to it
+        workspaceDir = ctx?.workspaceDir;
+        // Persist context query results so restarts start warm
+        if (ctx?.stateDir) {
+          configureContextCache(ctx.stateDir);
+          configureKBIndex(ctx.stateDir);
+          configureCaptureDedupe(ctx.stateDir);
+          configureReviewQueue(ctx.stateDir, pluginCfg?.captureReviewDays);
+          configureOutbox(ctx.stateDir);
+        }
+
+        // Mirror the KB locally so context search doesn't wait on the CLI
+        refreshKBIndex()
+          .then((r) => api.logger.debug(`muse: KB index refreshed (${r.total} documents).`))
+          .catch((err) => api.logger.debug(`muse: KB index refresh failed: ${String(err)}`));
+
+        // Retry captures the KB couldn't take; the outbox applies the backoff
+        replayCaptures();
+        outboxInterval = setInterval(replayCaptures, 60 * 1000);
+
         if (!pluginCfg?.autoSync) return;
         api.logger.info("muse: background sync enabled (every 5 minutes).");
         syncInterval = setInterval(
           async () => {
             try {
-              await run(["-force"], { timeout: "slow" });
+              await run(["-force"], { timeout: "slow", priority: "background" });
               invalidateCache();
+              const index = await refreshKBIndex();
+              api.logger.debug(
+                `muse: KB index +${index.added} ~${index.updated} -${index.removed} (${index.total} documents).`,
+              );
               api.logger.debug("muse: background sync completed.");
             } catch (err) {
               api.logger.warn(`muse: background sync failed: ${String(err)}`);
@@ -882,9 +1535,23 @@ const musePlugin = {
           clearInterval(syncInterval);
           syncInterval = null;
         }
+        if (outboxInterval) {
+          clearInterval(outboxInterval);
+          outboxInterval = null;
+        }
       },
     });
   },
 };
 
 export default musePlugin;
+
+// Extension point for additional context sources (e.g. local ADR folders)
+export {
+  registerContextProvider,
+  type ContextProvider,
+  type ContextProviderInput,
+  type ContextProviderResult,
+  type ContextSection,
+  type ContextItem,
+} from "./lib/context-builder.js";
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { checkDuplicate, fingerprint, recordCapture, similarity, type CaptureRecord } from "./capture-dedupe.js";
+
+const original =
+  "The integration tests failed because the Postgres container started before the migrations ran. " +
+  "Running npm run db:migrate in the test setup hook fixed the ordering, and the suite now passes in CI.";
+const reworded =
+  "The integration tests failed because the Postgres container started before the migrations ran. " +
+  "Running npm run db:migrate in the test setup hook fixed the ordering, and the suite passes on CI now.";
+const continued =
+  `${original} Later the seed data was missing as well, so a seed step now runs right after ` +
+  "the migrations and the fixtures no longer create their own rows.";
+const unrelated =
+  "Vite builds were slow because source maps were generated for every vendor chunk. " +
+  "Turning them off for dependencies cut the production build from ninety seconds to twenty.";
+
+function record(text: string, contentHash: string): CaptureRecord {
+  return { fingerprint: fingerprint(text), contentHash, category: "debugging", capturedAt: new Date().toISOString() };
+}
+
+test("sketches are sorted, stable and ignore case and punctuation", () => {
+  const print = fingerprint(original);
+  assert.deepEqual(print, [...print].sort((a, b) => a - b));
+  assert.deepEqual(fingerprint(original.toUpperCase().replace(/[.,]/g, "")), print);
+  assert.equal(similarity(print, print), 1);
+  assert.equal(similarity(print, []), 0);
+});
+
+test("similarity ranks rewordings above follow-ups above unrelated text", () => {
+  const print = fingerprint(original);
+  const reworded_ = similarity(print, fingerprint(reworded));
+  const continued_ = similarity(print, fingerprint(continued));
+  const unrelated_ = similarity(print, fingerprint(unrelated));
+  assert.ok(reworded_ > continued_, `${reworded_} <= ${continued_}`);
+  assert.ok(continued_ > unrelated_, `${continued_} <= ${unrelated_}`);
+  assert.equal(unrelated_, 0);
+});
+
+test("recent captures decide between save, merge and skip", async () => {
+  assert.deepEqual(await checkDuplicate(fingerprint(original), "merge"), { action: "save" });
+  const saved = record(original, "sha256:original");
+  await recordCapture(saved);
+
+  assert.deepEqual(await checkDuplicate(fingerprint(unrelated), "merge"), { action: "save" });
+  assert.equal((await checkDuplicate(fingerprint(reworded), "merge")).action, "skip");
+
+  const merged = await checkDuplicate(fingerprint(continued), "merge");
+  assert.equal(merged.action, "merge");
+  assert.ok("match" in merged && merged.match === saved);
+  assert.equal((await checkDuplicate(fingerprint(continued), "skip")).action, "skip");
+  assert.deepEqual(await checkDuplicate(fingerprint(original), "off"), { action: "save" });
+
+  // A merged document replaces the record it absorbed
+  await recordCapture(record(continued, "sha256:continued"), saved);
+  const next = await checkDuplicate(fingerprint(reworded), "merge");
+  assert.ok("match" in next && next.match.contentHash === "sha256:continued");
+});
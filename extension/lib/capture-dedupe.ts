@@ -0,0 +1,165 @@
+import { readJsonFile, statePath, writeJsonFile } from "./state-file.js";
+import { stem, tokenize } from "./text-analysis.js";
+
+// ---------------------------------------------------------------------------
+// Near-duplicate detection for captured insights. Each capture's summary is
+// fingerprinted as a bottom-k sketch of its hashed word shingles; the
+// Jaccard similarity of two sketches estimates how much text the summaries
+// share. Recent fingerprints are kept in the plugin stateDir.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CaptureRecord {
+  /** Sorted shingle hashes (bottom-k sketch). */
+  fingerprint: number[];
+  /** Envelope content hash, used to find the KB document again. */
+  contentHash: string;
+  category: string;
+  capturedAt: string;
+}
+
+export interface NearDuplicate {
+  action: "skip" | "merge";
+  match: CaptureRecord;
+  /** Estimated Jaccard similarity, 0–1. */
+  similarity: number;
+}
+
+export type DuplicateVerdict = { action: "save" } | NearDuplicate;
+
+export type CaptureDedupeMode = "merge" | "skip" | "off";
+
+// ---------------------------------------------------------------------------
+// Fingerprinting
+// ---------------------------------------------------------------------------
+
+const SHINGLE_SIZE = 3;
+const SKETCH_SIZE = 128;
+
+function fnv1a32(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function shingles(text: string): string[] {
+  const terms = tokenize(text).map(stem);
+  if (terms.length < SHINGLE_SIZE) return terms;
+  const result: string[] = [];
+  for (let i = 0; i <= terms.length - SHINGLE_SIZE; i++) {
+    result.push(terms.slice(i, i + SHINGLE_SIZE).join(" "));
+  }
+  return result;
+}
+
+/**
+ * The `SKETCH_SIZE` smallest distinct shingle hashes of the text, sorted.
+ */
+export function fingerprint(text: string): number[] {
+  const hashes = Array.from(new Set(shingles(text).map(fnv1a32)));
+  return hashes.sort((a, b) => a - b).slice(0, SKETCH_SIZE);
+}
+
+/**
+ * Estimate the Jaccard similarity of the texts behind two sketches: of the
+ * k smallest hashes in their union, the fraction present in both.
+ */
+export function similarity(a: number[], b: number[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const union = Array.from(new Set([...a, ...b]))
+    .sort((x, y) => x - y)
+    .slice(0, Math.min(SKETCH_SIZE, Math.max(a.length, b.length)));
+  const shared = union.filter((h) => setA.has(h) && setB.has(h)).length;
+  return shared / union.length;
+}
+
+// ---------------------------------------------------------------------------
+// Recent captures
+// ---------------------------------------------------------------------------
+
+const CAPTURES_FILE = "captures.json";
+const MAX_RECORDS = 200;
+const MAX_AGE_MS = 30 * 24 * 60 * 60_000;
+
+/** At or above this similarity the new capture adds nothing. */
+const DUPLICATE_SIMILARITY = 0.7;
+/** At or above this it continues the same topic and is merged. */
+const RELATED_SIMILARITY = 0.35;
+
+let capturesFile: string | null = null;
+let records: CaptureRecord[] = [];
+let loading: Promise<void> | null = null;
+let writing: Promise<void> = Promise.resolve();
+
+function ensureLoaded(): Promise<void> {
+  if (!capturesFile) return Promise.resolve();
+  if (!loading) {
+    loading = readJsonFile<CaptureRecord[]>(capturesFile, []).then((stored) => {
+      records = [...stored, ...records];
+    });
+  }
+  return loading;
+}
+
+function persist(): void {
+  if (!capturesFile) return;
+  const file = capturesFile;
+  const cutoff = Date.now() - MAX_AGE_MS;
+  records = records.filter((r) => Date.parse(r.capturedAt) >= cutoff).slice(-MAX_RECORDS);
+  const snapshot = records.slice();
+
+  writing = writing
+    .then(() => writeJsonFile(file, snapshot))
+    .catch(() => {
+      // Losing the history only means a later duplicate may slip through
+    });
+}
+
+export function configureCaptureDedupe(stateDir: string): void {
+  const file = statePath(stateDir, CAPTURES_FILE);
+  if (file === capturesFile) return;
+  capturesFile = file;
+  loading = null;
+}
+
+/**
+ * Compare a summary's fingerprint against recent captures.
+ */
+export async function checkDuplicate(
+  print: number[],
+  mode: CaptureDedupeMode,
+): Promise<DuplicateVerdict> {
+  if (mode === "off") return { action: "save" };
+  await ensureLoaded();
+
+  let best: { match: CaptureRecord; similarity: number } | null = null;
+  for (const record of records) {
+    const score = similarity(print, record.fingerprint);
+    if (!best || score > best.similarity) best = { match: record, similarity: score };
+  }
+
+  if (!best || best.similarity < RELATED_SIMILARITY) return { action: "save" };
+  if (best.similarity >= DUPLICATE_SIMILARITY || mode === "skip") {
+    return { action: "skip", ...best };
+  }
+  return { action: "merge", ...best };
+}
+
+/**
+ * Remember a saved capture. `replaces` drops the record of a document that
+ * was merged into this one.
+ */
+export async function recordCapture(record: CaptureRecord, replaces?: CaptureRecord): Promise<void> {
+  await ensureLoaded();
+  if (replaces) records = records.filter((r) => r.contentHash !== replaces.contentHash);
+  records.push(record);
+  persist();
+}
@@ -0,0 +1,176 @@
+import { readJsonFile, statePath, writeJsonFile } from "./state-file.js";
+
+// ---------------------------------------------------------------------------
+// Outbox for captures the KB couldn't take — the CLI was missing, not logged
+// in, or `kb save` failed or timed out. Entries wait in the plugin stateDir
+// and are replayed with exponential backoff until they are saved or run out
+// of attempts and become dead letters.
+//
+// An entry's key is its envelope content hash. A save that timed out may
+// still have gone through, so a replay first looks for the hash in the KB
+// and only saves when it isn't there.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface OutboxEntry {
+  /** Idempotency key: the envelope content hash. */
+  key: string;
+  /** Full envelope, exactly as it will be saved. */
+  content: string;
+  /** Kept so the capture can be recorded for duplicate detection once saved. */
+  fingerprint: number[];
+  category: string;
+  capturedAt: string;
+  sessionKey?: string;
+  queuedAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string;
+  /** Set when the entry ran out of attempts. */
+  deadAt?: string;
+}
+
+export interface OutboxStatus {
+  pending: OutboxEntry[];
+  dead: OutboxEntry[];
+}
+
+// ---------------------------------------------------------------------------
+// Backoff
+// ---------------------------------------------------------------------------
+
+const OUTBOX_FILE = "outbox.json";
+const BASE_DELAY_MS = 60_000;
+const MAX_DELAY_MS = 6 * 60 * 60_000;
+export const MAX_ATTEMPTS = 10;
+const MAX_ENTRIES = 200;
+
+/** 1 min, 2 min, 4 min, ... capped at 6 hours. */
+function backoff(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_DELAY_MS);
+}
+
+// ---------------------------------------------------------------------------
+// Outbox state
+// ---------------------------------------------------------------------------
+
+let outboxFile: string | null = null;
+let entries: OutboxEntry[] = [];
+let loading: Promise<void> | null = null;
+let writing: Promise<void> = Promise.resolve();
+
+function ensureLoaded(): Promise<void> {
+  if (!outboxFile) return Promise.resolve();
+  if (!loading) {
+    loading = readJsonFile<OutboxEntry[]>(outboxFile, []).then((stored) => {
+      const known = new Set(entries.map((e) => e.key));
+      entries = [...stored.filter((e) => !known.has(e.key)), ...entries];
+    });
+  }
+  return loading;
+}
+
+function persist(): Promise<void> {
+  if (!outboxFile) return Promise.resolve();
+  const file = outboxFile;
+  const snapshot = entries.slice();
+  // A failed write surfaces to its caller without blocking later ones
+  writing = writing.catch(() => {}).then(() => writeJsonFile(file, snapshot));
+  return writing;
+}
+
+export function configureOutbox(stateDir: string): void {
+  const file = statePath(stateDir, OUTBOX_FILE);
+  if (file === outboxFile) return;
+  outboxFile = file;
+  loading = null;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Hold a capture that couldn't be saved. A later capture of the same session
+ * covers everything an earlier one did, so it replaces that session's
+ * pending entry.
+ */
+export async function enqueueOutbox(
+  entry: Pick<OutboxEntry, "key" | "content" | "fingerprint" | "category" | "capturedAt" | "sessionKey">,
+  error: string,
+): Promise<{ replaced?: OutboxEntry }> {
+  await ensureLoaded();
+  const replaced = entry.sessionKey
+    ? entries.find((e) => !e.deadAt && e.sessionKey === entry.sessionKey)
+    : undefined;
+
+  const now = Date.now();
+  const queued: OutboxEntry = {
+    ...entry,
+    queuedAt: new Date(now).toISOString(),
+    attempts: 1, // the save that just failed
+    nextAttemptAt: new Date(now + backoff(1)).toISOString(),
+    lastError: error,
+  };
+  entries = [...entries.filter((e) => e !== replaced && e.key !== entry.key), queued].slice(-MAX_ENTRIES);
+  await persist();
+  return { replaced };
+}
+
+/** Pending entries whose next attempt is due. */
+export async function dueOutboxEntries(now = Date.now()): Promise<OutboxEntry[]> {
+  await ensureLoaded();
+  return entries.filter((e) => !e.deadAt && Date.parse(e.nextAttemptAt) <= now);
+}
+
+export async function removeFromOutbox(key: string): Promise<void> {
+  await ensureLoaded();
+  entries = entries.filter((e) => e.key !== key);
+  await persist();
+}
+
+/**
+ * Record a failed replay: schedule the next attempt, or move the entry to
+ * the dead letters once it has used up its attempts.
+ */
+export async function recordOutboxFailure(key: string, error: string): Promise<OutboxEntry | null> {
+  await ensureLoaded();
+  const entry = entries.find((e) => e.key === key);
+  if (!entry) return null;
+
+  const now = Date.now();
+  entry.attempts += 1;
+  entry.lastError = error;
+  if (entry.attempts >= MAX_ATTEMPTS) {
+    entry.deadAt = new Date(now).toISOString();
+  } else {
+    entry.nextAttemptAt = new Date(now + backoff(entry.attempts)).toISOString();
+  }
+  await persist();
+  return entry;
+}
+
+/** Give dead letters a fresh set of attempts, due now. Returns how many. */
+export async function requeueDeadLetters(): Promise<number> {
+  await ensureLoaded();
+  const now = new Date().toISOString();
+  const dead = entries.filter((e) => e.deadAt);
+  for (const entry of dead) {
+    entry.deadAt = undefined;
+    entry.attempts = 0;
+    entry.nextAttemptAt = now;
+  }
+  if (dead.length > 0) await persist();
+  return dead.length;
+}
+
+export async function outboxStatus(): Promise<OutboxStatus> {
+  await ensureLoaded();
+  return {
+    pending: entries.filter((e) => !e.deadAt),
+    dead: entries.filter((e) => e.deadAt),
+  };
+}
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { homedir } from "node:os";
+import { afterEach, test } from "node:test";
+import { configureCapturePolicy, evaluateCapturePolicy, type PolicyInput } from "./capture-policy.js";
+
+const home = homedir();
+
+function input(overrides: Partial<PolicyInput> = {}): PolicyInput {
+  return { substantiveMessages: 4, totalLength: 800, category: "debugging", labels: [], ...overrides };
+}
+
+function captured(overrides: Partial<PolicyInput> = {}): boolean {
+  return evaluateCapturePolicy(input(overrides)).capture;
+}
+
+afterEach(() => {
+  configureCapturePolicy(undefined);
+});
+
+test("path globs cover the directories below them, and ~ is the home directory", () => {
+  configureCapturePolicy({ denyProjects: ["~/work/clients/*"] });
+  assert.equal(captured({ project: `${home}/work/clients/acme` }), false);
+  assert.equal(captured({ project: `${home}/work/clients/acme/packages/api` }), false);
+  assert.equal(captured({ project: `${home}/work/internal` }), true);
+});
+
+test("** crosses directories and * stays within one", () => {
+  configureCapturePolicy({ allowProjects: ["/src/**/oss"] });
+  assert.equal(captured({ project: "/src/github/me/oss" }), true);
+
+  configureCapturePolicy({ allowProjects: ["/src/*/oss"] });
+  assert.equal(captured({ project: "/src/github/me/oss" }), false);
+  assert.equal(captured({ project: "/src/github/oss" }), true);
+});
+
+test("globs without a slash match the project folder name", () => {
+  configureCapturePolicy({ allowProjects: ["oss-*"] });
+  assert.equal(captured({ project: "/home/me/oss-parser" }), true);
+  assert.equal(captured({ project: "/home/oss-things/parser" }), false);
+});
+
+test("denyProjects wins over allowProjects", () => {
+  configureCapturePolicy({ allowProjects: ["/work/**"], denyProjects: ["secret-*"] });
+  const decision = evaluateCapturePolicy(input({ project: "/work/secret-sauce" }));
+  assert.deepEqual(decision, {
+    capture: false,
+    reason: 'project /work/secret-sauce matches denyProjects "secret-*"',
+  });
+});
+
+test("project globs fail closed when the project is unknown", () => {
+  configureCapturePolicy({ denyProjects: ["~/work/clients/*"] });
+  assert.equal(captured({ project: undefined }), false);
+
+  configureCapturePolicy({ allowProjects: ["~/work/**"] });
+  assert.equal(captured({ project: undefined }), false);
+
+  configureCapturePolicy({});
+  assert.equal(captured({ project: undefined }), true);
+});
+
+test("thresholds and categories are checked, and bad settings are rejected", () => {
+  const rejected = configureCapturePolicy({
+    minMessages: 3,
+    minLength: -1,
+    sampleRate: 2,
+    neverCategories: ["Security"],
+  });
+  assert.deepEqual(rejected.sort(), ["minLength: -1", "sampleRate: 2"]);
+  assert.equal(captured({ substantiveMessages: 2 }), false);
+  assert.equal(captured({ totalLength: 10 }), true);
+  assert.equal(captured({ labels: ["security"] }), false);
+});
@@ -0,0 +1,189 @@
+import { homedir } from "node:os";
+import { basename } from "node:path";
+
+// ---------------------------------------------------------------------------
+// Capture policy — which conversations may be captured at all. Project
+// globs keep client and confidential repositories out of the KB; the
+// thresholds and sampling keep out conversations too thin to be worth it.
+// Every check that fails gives a reason, so the skip can be logged.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CapturePolicy {
+  /** Project globs that may be captured; when set, every other project is skipped. */
+  allowProjects?: string[];
+  /** Project globs that are never captured. Wins over `allowProjects`. */
+  denyProjects?: string[];
+  /** Fewest substantive user and assistant messages worth capturing. */
+  minMessages?: number;
+  /** Fewest characters across those messages. */
+  minLength?: number;
+  /** Fraction of eligible conversations to capture, 0–1. */
+  sampleRate?: number;
+  /** Categories (primary or label) never to capture. */
+  neverCategories?: string[];
+}
+
+export interface PolicyInput {
+  /** Workspace repository root, if known. */
+  project?: string;
+  substantiveMessages: number;
+  totalLength: number;
+  category: string;
+  labels: string[];
+}
+
+export type PolicyDecision = { capture: true } | { capture: false; reason: string };
+
+// ---------------------------------------------------------------------------
+// Project globs
+// ---------------------------------------------------------------------------
+
+interface ProjectGlob {
+  source: string;
+  pattern: RegExp;
+  /** Patterns without a slash match the project folder name. */
+  nameOnly: boolean;
+}
+
+/**
+ * `**` matches across directories, `*` and `?` within one, and a leading
+ * `~` is the home directory. A path pattern also matches everything below
+ * the directories it names.
+ */
+function compileGlob(source: string): ProjectGlob {
+  const expanded = source.replace(/^~(?=\/|$)/, homedir()).replace(/\/+$/, "");
+  const nameOnly = !expanded.includes("/");
+  let regex = "";
+  for (let i = 0; i < expanded.length; i++) {
+    const ch = expanded[i];
+    if (ch === "*" && expanded[i + 1] === "*") {
+      regex += ".*";
+      i++;
+    } else if (ch === "*") {
+      regex += "[^/]*";
+    } else if (ch === "?") {
+      regex += "[^/]";
+    } else {
+      regex += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return {
+    source,
+    pattern: new RegExp(nameOnly ? `^${regex}$` : `^${regex}(?:/.*)?$`),
+    nameOnly,
+  };
+}
+
+function matchesGlob(project: string, glob: ProjectGlob): boolean {
+  const path = project.replace(/\\/g, "/").replace(/\/+$/, "");
+  return glob.pattern.test(glob.nameOnly ? basename(path) : path);
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+interface CompiledPolicy {
+  allow: ProjectGlob[];
+  deny: ProjectGlob[];
+  minMessages: number;
+  minLength: number;
+  sampleRate: number;
+  never: Set<string>;
+}
+
+const DEFAULT_POLICY: CompiledPolicy = {
+  allow: [],
+  deny: [],
+  minMessages: 0,
+  minLength: 0,
+  sampleRate: 1,
+  never: new Set(),
+};
+
+let policy = DEFAULT_POLICY;
+
+/**
+ * Set the capture policy from plugin config. Returns the settings that were
+ * rejected; those fall back to their defaults.
+ */
+export function configureCapturePolicy(config: CapturePolicy | undefined): string[] {
+  const rejected: string[] = [];
+  const count = (name: string, value: number | undefined): number => {
+    if (value === undefined) return 0;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      rejected.push(`${name}: ${String(value)}`);
+      return 0;
+    }
+    return value;
+  };
+
+  let sampleRate = config?.sampleRate ?? 1;
+  if (typeof sampleRate !== "number" || !(sampleRate >= 0 && sampleRate <= 1)) {
+    rejected.push(`sampleRate: ${String(sampleRate)}`);
+    sampleRate = 1;
+  }
+
+  policy = {
+    allow: (config?.allowProjects ?? []).map(compileGlob),
+    deny: (config?.denyProjects ?? []).map(compileGlob),
+    minMessages: count("minMessages", config?.minMessages),
+    minLength: count("minLength", config?.minLength),
+    sampleRate,
+    never: new Set((config?.neverCategories ?? []).map((c) => c.toLowerCase())),
+  };
+  return rejected;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Decide whether a conversation may be captured. Checks run cheapest and
+ * most deliberate first, so the reason names the rule that mattered:
+ * project globs, thresholds, categories, then sampling.
+ */
+export function evaluateCapturePolicy(input: PolicyInput): PolicyDecision {
+  const { project } = input;
+
+  // Without a project there is no telling whether it is a denied one
+  if (policy.deny.length > 0) {
+    if (!project) return { capture: false, reason: "no workspace project to check against denyProjects" };
+    const denied = policy.deny.find((g) => matchesGlob(project, g));
+    if (denied) {
+      return { capture: false, reason: `project ${project} matches denyProjects "${denied.source}"` };
+    }
+  }
+  if (policy.allow.length > 0) {
+    if (!project) return { capture: false, reason: "no workspace project to match allowProjects" };
+    if (!policy.allow.some((g) => matchesGlob(project, g))) {
+      return { capture: false, reason: `project ${project} matches no allowProjects glob` };
+    }
+  }
+
+  if (input.substantiveMessages < policy.minMessages) {
+    return {
+      capture: false,
+      reason: `${input.substantiveMessages} substantive messages, below minMessages ${policy.minMessages}`,
+    };
+  }
+  if (input.totalLength < policy.minLength) {
+    return {
+      capture: false,
+      reason: `${input.totalLength} characters, below minLength ${policy.minLength}`,
+    };
+  }
+
+  const never = [input.category, ...input.labels].find((c) => policy.never.has(c.toLowerCase()));
+  if (never) return { capture: false, reason: `category ${never} is in neverCategories` };
+
+  if (policy.sampleRate < 1 && Math.random() >= policy.sampleRate) {
+    return { capture: false, reason: `not sampled (sampleRate ${policy.sampleRate})` };
+  }
+  return { capture: true };
+}
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fingerprint } from "./capture-dedupe.js";
+import { outboxStatus } from "./capture-outbox.js";
+import { editPendingCapture, enqueueCapture, type CaptureMeta } from "./capture-review.js";
+import { formatEnvelope, parseEnvelope } from "./kb-envelope.js";
+import { approvePendingCapture } from "./knowledge-capture.js";
+import { configureRunner } from "./tribe-runner.js";
+
+// No CLI: approved captures land in the (in-memory) outbox, where they can be inspected
+process.env.PATH = "";
+configureRunner({ binary: "/nonexistent/tribe" });
+
+const BODY = "Problem: the cache kept stale entries\n\nOutcome: expire them on write";
+
+function queue(body = BODY) {
+  const meta: CaptureMeta = {
+    category: "debugging",
+    labels: ["debugging"],
+    confidence: 0.6,
+    tags: ["redis"],
+    capturedAt: "2026-10-01T12:00:00.000Z",
+  };
+  return enqueueCapture({ meta, body, fingerprint: fingerprint(body) });
+}
+
+test("an edited category is normalized so the envelope still parses", async () => {
+  const { item } = await queue();
+  const edited = await editPendingCapture(item.id, { category: "Performance tuning" });
+  assert.equal(edited?.meta.category, "performance-tuning");
+  assert.deepEqual(edited?.meta.labels, ["performance-tuning"]);
+
+  const { meta } = parseEnvelope(formatEnvelope(edited!.meta, edited!.body));
+  assert.equal(meta?.category, "performance-tuning");
+  assert.ok(meta?.contentHash);
+});
+
+test("a category that can't be normalized is rejected", async () => {
+  const { item } = await queue();
+  await assert.rejects(editPendingCapture(item.id, { category: "!!!" }), /Invalid category/);
+  await assert.rejects(editPendingCapture(item.id, { category: "42" }), /Invalid category/);
+});
+
+test("an approved edit is fingerprinted from the edited summary", async () => {
+  const { item } = await queue();
+  const rewritten = "Problem: deploys failed on a missing migration\n\nOutcome: run migrations first";
+  await editPendingCapture(item.id, { body: rewritten });
+
+  const stored = await approvePendingCapture(item.id);
+  assert.equal(stored?.queued, "TRIBE CLI not installed");
+
+  const { pending } = await outboxStatus();
+  const entry = pending.find((e) => parseEnvelope(e.content).body === rewritten);
+  assert.ok(entry, "the edited capture is in the outbox");
+  assert.deepEqual(entry.fingerprint, fingerprint(rewritten));
+  assert.notDeepEqual(entry.fingerprint, item.fingerprint);
+});
@@ -0,0 +1,175 @@
+import { randomBytes } from "node:crypto";
+import type { NearDuplicate } from "./capture-dedupe.js";
+import { normalizeCategoryName } from "./categorizer.js";
+import type { KBEntryMeta } from "./kb-envelope.js";
+import { readJsonFile, statePath, writeJsonFile } from "./state-file.js";
+
+// ---------------------------------------------------------------------------
+// Review queue for captured insights. In `review` capture mode a capture is
+// held here instead of being saved, until someone approves (possibly after
+// editing), discards, or lets it expire. The queue lives in the plugin
+// stateDir, so it survives restarts but stays on this machine.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Entry metadata as captured; the envelope fields are filled in on save. */
+export type CaptureMeta = Omit<KBEntryMeta, "contentHash" | "pluginVersion" | "legacy"> & {
+  capturedAt: string;
+};
+
+export interface PendingCapture {
+  id: string;
+  meta: CaptureMeta;
+  /** Redacted summary, as it will be saved. */
+  body: string;
+  fingerprint: number[];
+  /** Recent capture this one continues; approving merges into it. */
+  related?: NearDuplicate;
+  queuedAt: string;
+  /** Set once a reviewer has changed the summary, category or tags. */
+  editedAt?: string;
+}
+
+export interface PendingCaptureEdit {
+  body?: string;
+  category?: string;
+  tags?: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Queue state
+// ---------------------------------------------------------------------------
+
+const QUEUE_FILE = "review-queue.json";
+const DEFAULT_EXPIRY_DAYS = 14;
+const MAX_PENDING = 100;
+const DAY_MS = 24 * 60 * 60_000;
+
+let queueFile: string | null = null;
+let expiryMs = DEFAULT_EXPIRY_DAYS * DAY_MS;
+let pending: PendingCapture[] = [];
+let loading: Promise<void> | null = null;
+let writing: Promise<void> = Promise.resolve();
+
+function ensureLoaded(): Promise<void> {
+  if (!queueFile) return Promise.resolve();
+  if (!loading) {
+    loading = readJsonFile<PendingCapture[]>(queueFile, []).then((stored) => {
+      pending = [...stored, ...pending];
+    });
+  }
+  return loading;
+}
+
+/** Drop expired items. Returns how many were dropped. */
+function expire(): number {
+  const cutoff = Date.now() - expiryMs;
+  const before = pending.length;
+  pending = pending.filter((p) => Date.parse(p.queuedAt) >= cutoff);
+  return before - pending.length;
+}
+
+function persist(): Promise<void> {
+  if (!queueFile) return Promise.resolve();
+  const file = queueFile;
+  const snapshot = pending.slice();
+  // A failed write surfaces to its caller without blocking later ones
+  writing = writing.catch(() => {}).then(() => writeJsonFile(file, snapshot));
+  return writing;
+}
+
+export function configureReviewQueue(stateDir: string, expiryDays?: number): void {
+  if (expiryDays !== undefined && expiryDays > 0) expiryMs = expiryDays * DAY_MS;
+  const file = statePath(stateDir, QUEUE_FILE);
+  if (file === queueFile) return;
+  queueFile = file;
+  loading = null;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Hold a capture for review. A later capture of the same session covers
+ * everything an earlier one did, so it replaces that session's unedited
+ * pending item. The oldest items make way once the queue is full, so an
+ * unattended queue can't grow without bound.
+ */
+export async function enqueueCapture(
+  capture: Omit<PendingCapture, "id" | "queuedAt">,
+): Promise<{ item: PendingCapture; replaced?: PendingCapture }> {
+  await ensureLoaded();
+  expire();
+  const sessionKey = capture.meta.sessionKey;
+  const replaced = sessionKey
+    ? pending.find((p) => p.meta.sessionKey === sessionKey && !p.editedAt)
+    : undefined;
+
+  const item: PendingCapture = {
+    ...capture,
+    id: randomBytes(4).toString("hex"),
+    queuedAt: new Date().toISOString(),
+  };
+  pending = [...pending.filter((p) => p !== replaced), item].slice(-MAX_PENDING);
+  await persist();
+  return { item, replaced };
+}
+
+/** Pending captures, oldest first. Expired items are dropped on the way. */
+export async function listPendingCaptures(): Promise<PendingCapture[]> {
+  await ensureLoaded();
+  if (expire() > 0) await persist();
+  return pending.slice();
+}
+
+export async function getPendingCapture(id: string): Promise<PendingCapture | null> {
+  return (await listPendingCaptures()).find((p) => p.id === id) ?? null;
+}
+
+/**
+ * Apply a reviewer's edits. The category is normalized to a valid name, and
+ * one that can't be throws. Returns the updated item, or `null` if it is no
+ * longer pending.
+ */
+export async function editPendingCapture(
+  id: string,
+  edit: PendingCaptureEdit,
+): Promise<PendingCapture | null> {
+  const item = await getPendingCapture(id);
+  if (!item) return null;
+
+  const meta = { ...item.meta };
+  if (edit.category !== undefined) {
+    const category = normalizeCategoryName(edit.category);
+    if (!category) throw new Error(`Invalid category "${edit.category}"`);
+    // The reviewer's category replaces the scored labels
+    meta.category = category;
+    meta.labels = [category];
+    meta.confidence = 1;
+  }
+  if (edit.tags !== undefined) meta.tags = edit.tags;
+
+  const updated: PendingCapture = {
+    ...item,
+    meta,
+    body: edit.body ?? item.body,
+    editedAt: new Date().toISOString(),
+  };
+  pending = pending.map((p) => (p.id === id ? updated : p));
+  await persist();
+  return updated;
+}
+
+/** Remove an item (after approval or discard). Returns whether it was pending. */
+export async function removePendingCapture(id: string): Promise<boolean> {
+  await ensureLoaded();
+  const before = pending.length;
+  pending = pending.filter((p) => p.id !== id);
+  if (pending.length === before) return false;
+  await persist();
+  return true;
+}
@@ -0,0 +1,173 @@
+import type { Turn } from "./summarizer.js";
+
+// ---------------------------------------------------------------------------
+// Conversation categorization. Every category's signals are scored across
+// the whole conversation — log-scaled by how often they occur and weighted
+// by where they occur (the opening problem statement and the final answer
+// say the most about what a conversation was). The result carries every
+// label with a meaningful share plus a confidence for the primary one.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CategoryLabel {
+  name: string;
+  /** Share of the total signal score, 0–1. */
+  confidence: number;
+}
+
+export interface Categorization {
+  /** Best label, or "general" when no label is confident enough. */
+  primary: string;
+  confidence: number;
+  /** Labels with a meaningful share, best first. */
+  labels: CategoryLabel[];
+}
+
+/** Category name -> signal terms (regular expression sources, matched as whole words). */
+export type CategoryTaxonomy = Record<string, string[]>;
+
+// ---------------------------------------------------------------------------
+// Taxonomy
+// ---------------------------------------------------------------------------
+
+export const FALLBACK_CATEGORY = "general";
+
+const BUILTIN_TAXONOMY: CategoryTaxonomy = {
+  debugging: [
+    "debug\\w*", "errors?", "bugs?", "stack\\s*trace", "exceptions?", "crash\\w*",
+    "traceback", "fail(s|ed|ing|ure)?", "broken", "regression",
+  ],
+  architecture: [
+    "architect\\w*", "design", "structur\\w*", "refactor\\w*", "abstraction\\w*",
+    "modules?", "layer(s|ing)?", "boundar(y|ies)", "coupling", "dependency injection",
+  ],
+  pattern: [
+    "patterns?", "conventions?", "best\\s*practices?", "idioms?", "idiomatic",
+    "style guide", "consistent(ly)?",
+  ],
+  solution: [
+    "solution", "solved?", "resolved", "fixed", "workaround", "the fix", "works now",
+  ],
+  decision: [
+    "decided", "decision", "chose", "choice", "went\\s*with", "opted", "trade-?offs?",
+    "instead of", "rather than",
+  ],
+};
+
+const CATEGORY_NAME_RE = /^[a-z][a-z0-9-]*$/;
+
+let taxonomy = compile(BUILTIN_TAXONOMY);
+
+function compile(source: CategoryTaxonomy): Map<string, RegExp[]> {
+  const compiled = new Map<string, RegExp[]>();
+  for (const [name, terms] of Object.entries(source)) {
+    compiled.set(name, terms.map((t) => new RegExp(`\\b(?:${t})\\b`, "gi")));
+  }
+  return compiled;
+}
+
+/**
+ * Extend the built-in taxonomy from plugin config. Terms for an existing
+ * category are added to its signals; unknown names become new categories.
+ * Returns the entries that were rejected (bad names or invalid patterns).
+ */
+export function configureCategories(extra: CategoryTaxonomy | undefined): string[] {
+  const merged: CategoryTaxonomy = { ...BUILTIN_TAXONOMY };
+  const rejected: string[] = [];
+
+  for (const [rawName, terms] of Object.entries(extra ?? {})) {
+    const name = rawName.toLowerCase();
+    if (!CATEGORY_NAME_RE.test(name) || name === FALLBACK_CATEGORY || !Array.isArray(terms)) {
+      rejected.push(rawName);
+      continue;
+    }
+    const valid = terms.filter((term) => {
+      try {
+        new RegExp(term);
+        return true;
+      } catch {
+        rejected.push(`${rawName}: ${term}`);
+        return false;
+      }
+    });
+    merged[name] = [...(merged[name] ?? []), ...valid];
+  }
+
+  taxonomy = compile(merged);
+  return rejected;
+}
+
+/**
+ * A category name as entries are saved under it: lowercase words joined by
+ * hyphens, e.g. "Performance tuning" -> "performance-tuning". Returns `null`
+ * for names that don't reduce to a valid one. The envelope header only
+ * parses valid names, so every category written to the KB goes through this.
+ */
+export function normalizeCategoryName(raw: string): string | null {
+  const name = raw
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return CATEGORY_NAME_RE.test(name) ? name : null;
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+const OPENING_WEIGHT = 2;
+const CLOSING_WEIGHT = 1.5;
+/** Below this share of the total score the primary label isn't trusted. */
+const MIN_CONFIDENCE = 0.35;
+/** Below this absolute score there isn't enough signal to categorize at all. */
+const MIN_SCORE = 1.5;
+/** Secondary labels need at least this share. */
+const MIN_LABEL_SHARE = 0.2;
+const MAX_LABELS = 3;
+
+function positionWeight(turns: Turn[], index: number): number {
+  const firstUser = turns.findIndex((t) => t.role === "user");
+  const lastAssistant = turns.map((t) => t.role).lastIndexOf("assistant");
+  if (index === firstUser) return OPENING_WEIGHT;
+  if (index === lastAssistant) return CLOSING_WEIGHT;
+  return 1;
+}
+
+/**
+ * Score every category over the conversation and pick the labels.
+ */
+export function categorize(turns: Turn[]): Categorization {
+  const scores = new Map<string, number>();
+
+  turns.forEach((turn, index) => {
+    const weight = positionWeight(turns, index);
+    for (const [name, signals] of taxonomy) {
+      let turnScore = 0;
+      for (const signal of signals) {
+        const count = turn.text.match(signal)?.length ?? 0;
+        turnScore += Math.log1p(count);
+      }
+      if (turnScore > 0) scores.set(name, (scores.get(name) ?? 0) + weight * turnScore);
+    }
+  });
+
+  const total = Array.from(scores.values()).reduce((sum, s) => sum + s, 0);
+  const ranked = Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([name, score]) => ({ name, score, confidence: total > 0 ? score / total : 0 }));
+
+  const labels = ranked
+    .filter((l) => l.confidence >= MIN_LABEL_SHARE)
+    .slice(0, MAX_LABELS)
+    .map(({ name, confidence }) => ({ name, confidence: Math.round(confidence * 100) / 100 }));
+
+  const best = ranked[0];
+  if (!best || best.score < MIN_SCORE || best.confidence < MIN_CONFIDENCE) {
+    return { primary: FALLBACK_CATEGORY, confidence: 0, labels };
+  }
+  return { primary: best.name, confidence: labels[0].confidence, labels };
+}
@@ -0,0 +1,169 @@
+import { run, runText } from "./tribe-runner.js";
+
+// ---------------------------------------------------------------------------
+// CLI compatibility. `tribe version` is read at startup and checked against
+// the range of releases this plugin is tested with; outside it the startup
+// log warns. Which tools can run is decided separately: each `-beta` command
+// group the tools are built on is probed with `--help`, and a CLI without a
+// group gets an upgrade message from its tools instead of a usage error.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CLIVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  raw: string;
+}
+
+/** CLI command groups that not every release has. */
+export type CLIFeature = "kb" | "muse" | "circuit";
+
+export interface CLICompatibility {
+  /** `null` when `tribe version` couldn't be read. */
+  version: CLIVersion | null;
+  /**
+   * - "supported" — within the supported range
+   * - "too-old" — below it; upgrade
+   * - "untested" — a newer major release than the plugin knows
+   * - "unknown" — the version couldn't be read
+   */
+  status: "supported" | "too-old" | "untested" | "unknown";
+  /** Whether each command group answered its `--help` probe. */
+  features: Record<CLIFeature, boolean>;
+}
+
+// ---------------------------------------------------------------------------
+// Versions
+// ---------------------------------------------------------------------------
+
+/** Oldest CLI release the plugin is tested with, and the first major release it isn't. */
+const SUPPORTED_MIN = "0.4.0";
+const SUPPORTED_BELOW = "2.0.0";
+
+// ---------------------------------------------------------------------------
+// Probing
+// ---------------------------------------------------------------------------
+
+const FEATURE_COMMANDS: Record<CLIFeature, string> = {
+  kb: "tribe -beta kb",
+  muse: "tribe -beta muse",
+  circuit: "tribe -beta circuit",
+};
+
+const FEATURES = Object.keys(FEATURE_COMMANDS) as CLIFeature[];
+const UPGRADE_HINT = "Upgrade with: npx @_xtribe/cli@latest";
+const UNKNOWN_COMMAND =
+  /(?:unknown|unrecognized) (?:command|subcommand)|no such command|invalid command/i;
+
+/** The first `x.y[.z]` in `tribe version` output, with or without a leading "v". */
+export function parseVersion(text: string): CLIVersion | null {
+  const match = /\bv?(\d+)\.(\d+)(?:\.(\d+))?/.exec(text);
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3] ?? 0),
+    raw: match[0].replace(/^v/, ""),
+  };
+}
+
+function compareVersions(a: CLIVersion, b: CLIVersion): number {
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+}
+
+function versionStatus(version: CLIVersion | null): CLICompatibility["status"] {
+  if (!version) return "unknown";
+  if (compareVersions(version, parseVersion(SUPPORTED_MIN)!) < 0) return "too-old";
+  if (compareVersions(version, parseVersion(SUPPORTED_BELOW)!) >= 0) return "untested";
+  return "supported";
+}
+
+/**
+ * Whether the CLI has the command group. Some CLIs answer `--help` for an
+ * unknown subcommand with the parent's help and exit 0, so a successful
+ * probe must also mention the group. A probe that fails for any other
+ * reason (a timeout, a missing binary) blocks nothing.
+ */
+async function probe(feature: CLIFeature): Promise<boolean> {
+  const result = await run(["-beta", feature, "--help"], { timeout: "fast" });
+  const output = `${result.stdout}\n${result.stderr}`;
+  if (result.exitCode === 0) return new RegExp(`\\b${feature}\\b`, "i").test(output);
+  return !UNKNOWN_COMMAND.test(output);
+}
+
+async function assess(): Promise<CLICompatibility> {
+  const [version, ...available] = await Promise.all([
+    runText(["version"], { timeout: "fast" }).then(parseVersion, () => null),
+    ...FEATURES.map(probe),
+  ]);
+  const features = Object.fromEntries(
+    FEATURES.map((f, i) => [f, available[i]]),
+  ) as Record<CLIFeature, boolean>;
+  return { version, status: versionStatus(version), features };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+let checking: Promise<CLICompatibility> | null = null;
+
+/**
+ * Read the CLI version and probe its command groups. The result is kept
+ * until `refresh` asks for a new reading — after an install or upgrade.
+ */
+export function checkCLIVersion(refresh = false): Promise<CLICompatibility> {
+  if (!checking || refresh) checking = assess();
+  return checking;
+}
+
+/**
+ * Why a tool needing `feature` can't run on the installed CLI, or `null`
+ * when it can.
+ */
+export async function featureUnavailable(feature: CLIFeature): Promise<string | null> {
+  const compat = await checkCLIVersion();
+  if (compat.features[feature]) return null;
+
+  const installed = compat.version ? ` (${compat.version.raw})` : "";
+  return (
+    `This tool needs \`${FEATURE_COMMANDS[feature]}\`, which the installed TRIBE CLI` +
+    `${installed} doesn't have.\n\n${UPGRADE_HINT}`
+  );
+}
+
+/** Whether the installed CLI is in range and has every gated command group. */
+export function fullySupported(compat: CLICompatibility): boolean {
+  return compat.status === "supported" && FEATURES.every((f) => compat.features[f]);
+}
+
+/** The installed version and anything it can't do, in a sentence or two. */
+export function describeCompatibility(compat: CLICompatibility): string {
+  const installed = compat.version ? `TRIBE CLI ${compat.version.raw}` : "The TRIBE CLI";
+  const range = `${SUPPORTED_MIN} to below ${SUPPORTED_BELOW}`;
+  const notes: string[] = [];
+  switch (compat.status) {
+    case "too-old":
+      notes.push(`${installed} is older than Muse supports (${range}).`);
+      break;
+    case "untested":
+      notes.push(`${installed} is newer than Muse is tested with (${range}); some tools may misbehave.`);
+      break;
+    case "unknown":
+      notes.push("Couldn't read the TRIBE CLI version; tools stay enabled as far as probing allows.");
+      break;
+  }
+
+  const missing = FEATURES.filter((f) => !compat.features[f]);
+  if (missing.length > 0) {
+    const commands = missing.map((f) => `\`${FEATURE_COMMANDS[f]}\``);
+    notes.push(`${installed} lacks ${commands.join(", ")}, so the tools built on them are disabled.`);
+  }
+  if (notes.length === 0) return `${installed} supports every Muse tool.`;
+  if (compat.status === "too-old" || missing.length > 0) notes.push(UPGRADE_HINT);
+  return notes.join(" ");
+}
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { _testing, type ContextSection } from "./context-builder.js";
+
+const { packSections } = _testing;
+
+// `<muse-context>\n` and `\n</muse-context>` come out of every budget
+const WRAPPER = 31;
+
+function text(length: number, char = "x"): string {
+  return char.repeat(length);
+}
+
+function sections(sessionItem: number): ContextSection[] {
+  return [
+    {
+      name: "sessions",
+      heading: "## Sessions",
+      priority: 2,
+      items: [{ id: "session:1", text: text(sessionItem, "s") }, { id: "session:2", text: text(100, "t") }],
+    },
+    { name: "git", priority: 1, items: [{ text: text(80, "g") }] },
+  ];
+}
+
+test("everything fits when the budget allows", () => {
+  const result = packSections(sections(100), 10_000);
+  assert.deepEqual(result.sections, sections(100));
+  assert.equal(result.trimmed, 0);
+  assert.deepEqual(result.dropped, {});
+});
+
+test("higher-priority sections are packed first but keep display order", () => {
+  // 200 chars: git takes 80, the sessions heading and separator 14, one session 100
+  const result = packSections(sections(100), WRAPPER + 200);
+  assert.deepEqual(
+    result.sections.map((s) => [s.name, s.items.map((i) => i.id ?? i.text.length)]),
+    [["sessions", ["session:1"]], ["git", [80]]],
+  );
+  assert.equal(result.trimmed, 0);
+  assert.deepEqual(result.dropped, { sessions: 1 });
+});
+
+test("the item straddling the limit is trimmed when enough of it survives", () => {
+  const result = packSections(sections(30), WRAPPER + 200);
+  const [session] = result.sections;
+  const cut = session.items[1];
+  // 200 - 80 - 14 - 30, less the newline between the two items
+  assert.equal(cut.text.length, 75);
+  assert.ok(cut.text.endsWith("..."));
+  assert.equal(cut.trimmed, true);
+  assert.equal(result.trimmed, 1);
+  assert.deepEqual(result.dropped, {});
+});
+
+test("sections with nothing left are dropped entirely", () => {
+  const result = packSections(sections(100), WRAPPER + 100);
+  assert.deepEqual(result.sections.map((s) => s.name), ["git"]);
+  assert.deepEqual(result.dropped, { sessions: 2 });
+});
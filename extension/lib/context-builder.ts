@@ -1,69 +1,101 @@
-import { ensureInstalled, run } from "./tribe-runner.js";
+import {
+  ensureInstalled,
+  parseKBSearchHits,
+  parseSessions,
+  runJson,
+  type Session,
+} from "./tribe-runner.js";
+import { featureUnavailable } from "./cli-version.js";
+import { getCached, invalidateContextCache } from "./context-cache.js";
+import { recordInjection, type InjectionItem, type InjectionRecord } from "./context-history.js";
+import { gitProvider } from "./git-context.js";
+import { parseEnvelope, type KBEntryMeta } from "./kb-envelope.js";
+import { searchKBIndex } from "./kb-index.js";
+import { tokenize } from "./text-analysis.js";
+import { isWorkspaceProject, resolveWorkspace, type WorkspaceInfo } from "./workspace.js";
 
 // ---------------------------------------------------------------------------
-// JSON extraction — TRIBE CLI sometimes writes tips/warnings to stdout
-// alongside JSON output, especially under parallel execution. This helper
-// finds the actual JSON array/object in the output.
+// Types
 // ---------------------------------------------------------------------------
 
-function extractJSON(stdout: string): unknown {
-  const trimmed = stdout.trim();
-
-  // Fast path: clean JSON
-  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
-    return JSON.parse(trimmed);
-  }
-
-  // Find the first [ or { — everything before it is a CLI tip/warning
-  const arrayStart = trimmed.indexOf("[");
-  const objectStart = trimmed.indexOf("{");
-  const start =
-    arrayStart >= 0 && objectStart >= 0
-      ? Math.min(arrayStart, objectStart)
-      : Math.max(arrayStart, objectStart);
+export type ContextDepth = "minimal" | "standard" | "deep";
 
-  if (start < 0) throw new SyntaxError("No JSON found in output");
+interface KBMatch {
+  id: string;
+  category?: string;
+  text: string;
+  /** Score and match type as reported by `kb search`. */
+  cliScore?: number;
+  matchType?: string;
+  /** The prompt keyword whose search returned this document. */
+  keyword?: string;
+  /** Local BM25 score against the whole prompt. */
+  relevance?: number;
+  /** Envelope metadata for entries captured by Muse. */
+  meta?: KBEntryMeta;
+}
 
-  return JSON.parse(trimmed.slice(start));
+interface KBSearchResult {
+  keywords: string[];
+  matches: KBMatch[];
 }
 
-// ---------------------------------------------------------------------------
-// Types
-// ---------------------------------------------------------------------------
+export interface ContextItem {
+  /**
+   * Qualified source id (e.g. `kb:<id>`, `session:<id>`). Items with an id
+   * are deduplicated per conversation and listed by muse_context_explain.
+   */
+  id?: string;
+  text: string;
+  /** Set by budget packing when the text was shortened to fit. */
+  trimmed?: boolean;
+  /** Extra detail for muse_context_explain (never injected). */
+  trace?: { preview: string; details?: string[] };
+}
 
-export type ContextDepth = "minimal" | "standard" | "deep";
+export interface ContextSection {
+  name: string;
+  heading?: string;
+  /** Budget priority — lower numbers are packed first. */
+  priority: number;
+  items: ContextItem[];
+}
 
-interface SessionMeta {
-  id: string;
-  tool: string;
-  project: string;
-  branch?: string;
-  startedAt: string;
-  duration?: string;
-  summary?: string;
+export interface ContextProviderInput {
+  depth: ContextDepth;
+  /** Directory the agent works in, if known. */
+  workspaceDir?: string;
+  /** Resolved lazily and shared by every provider in a turn. */
+  workspace: Promise<WorkspaceInfo | null>;
 }
 
-interface KBMatch {
-  id: string;
-  category?: string;
-  text: string;
+export interface ContextProviderResult {
+  sections: ContextSection[];
+  /** Search terms the provider derived from the prompt, if any. */
+  keywords?: string[];
 }
 
-interface CachedContext {
-  sessions: SessionMeta[];
-  fetchedAt: number;
+/**
+ * A source of injected context. Providers run in parallel on every turn;
+ * a provider that misses its timeout simply contributes nothing.
+ */
+export interface ContextProvider {
+  name: string;
+  /** Lowest depth at which the provider runs. */
+  minDepth: ContextDepth;
+  /** Timeout in ms, capped by the shared query timeout. */
+  timeoutMs?: number;
+  /** Skip the provider when the TRIBE CLI is not installed. */
+  requiresTribe?: boolean;
+  fetch(prompt: string, input: ContextProviderInput): Promise<ContextProviderResult>;
 }
 
 // ---------------------------------------------------------------------------
-// Session metadata cache (avoids re-querying within a short window)
+// Cache freshness — stale results are still served while they revalidate
 // ---------------------------------------------------------------------------
 
-let sessionCache: CachedContext | null = null;
-const CACHE_TTL_MS = 60_000; // 1 minute
-
-function isCacheFresh(): boolean {
-  return sessionCache !== null && Date.now() - sessionCache.fetchedAt < CACHE_TTL_MS;
-}
+const SESSIONS_TTL_MS = 60_000; // 1 minute
+const KB_TTL_MS = 5 * 60_000; // 5 minutes
 
 // ---------------------------------------------------------------------------
 // TRIBE queries — each races against a hard timeout
@@ -87,135 +119,200 @@ async function withTimeout<T>(
   }
 }
 
-async function fetchRecentSessions(depth: ContextDepth): Promise<SessionMeta[]> {
-  if (isCacheFresh()) return sessionCache!.sessions;
-
+/**
+ * Query recent sessions from the CLI. Returns `null` on failure so the
+ * cache never stores an error as an empty result.
+ */
+async function querySessions(depth: ContextDepth): Promise<Session[] | null> {
   const limit = depth === "minimal" ? "5" : depth === "standard" ? "10" : "20";
   const timeRange = depth === "deep" ? "7d" : "24h";
 
   // Use `query sessions` which falls back to local cache when not authenticated.
   // `sessions list` requires auth and hard-fails without it.
-  const result = await withTimeout(
-    run(["query", "sessions", "--all", "--limit", limit, "--time-range", timeRange, "--format", "json"], {
-      timeout: "fast",
-    }),
-    QUERY_TIMEOUT_MS,
-    { stdout: "[]", stderr: "", exitCode: 1 },
-  );
-
-  if (result.exitCode !== 0) return [];
-
   try {
-    const raw = extractJSON(result.stdout);
-    const items = Array.isArray(raw) ? raw : [];
-    // JSON fields vary by source:
-    //   Local cache: { id, project, event_file }
-    //   Authenticated API: { conversation_id, tool, project_path, first_event, last_event, duration_minutes }
-    const sessions: SessionMeta[] = items.map(
-      (s: Record<string, unknown>) => ({
-        id: String(s.id ?? s.conversation_id ?? s.session_id ?? ""),
-        tool: String(s.tool ?? s.provider ?? "unknown"),
-        project: String(s.project ?? s.project_path ?? ""),
-        branch: s.branch ? String(s.branch) : undefined,
-        startedAt: String(s.started_at ?? s.startedAt ?? s.first_event ?? s.timestamp ?? ""),
-        duration: s.duration_minutes != null
-          ? `${s.duration_minutes}m`
-          : s.duration ? String(s.duration) : undefined,
-        summary: s.summary ? String(s.summary) : undefined,
-      }),
+    return await runJson(
+      ["query", "sessions", "--all", "--limit", limit, "--time-range", timeRange],
+      { timeout: "fast", priority: "context", parse: parseSessions },
     );
-    sessionCache = { sessions, fetchedAt: Date.now() };
-    return sessions;
   } catch {
-    return [];
+    return null;
   }
 }
 
-// Stop-words to skip when extracting search keywords from the prompt.
-const STOP_WORDS = new Set([
-  "a", "an", "the", "is", "are", "was", "were", "be", "been", "being",
-  "have", "has", "had", "do", "does", "did", "will", "would", "could",
-  "should", "may", "might", "shall", "can", "need", "must",
-  "i", "you", "he", "she", "it", "we", "they", "me", "him", "her", "us", "them",
-  "my", "your", "his", "its", "our", "their",
-  "this", "that", "these", "those", "what", "which", "who", "whom",
-  "and", "but", "or", "nor", "not", "no", "so", "if", "then", "else",
-  "for", "of", "in", "on", "at", "to", "by", "with", "from", "up", "out",
-  "about", "into", "through", "during", "before", "after", "above", "below",
-  "how", "when", "where", "why", "all", "each", "every", "both",
-  "few", "more", "most", "other", "some", "such", "only", "same",
-  "than", "too", "very", "just", "because", "as", "until", "while",
-  "use", "using", "implement", "add", "create", "make", "get", "set",
-]);
+async function fetchRecentSessions(depth: ContextDepth): Promise<Session[]> {
+  // A slow CLI falls through to nothing this turn, but the query keeps
+  // running and lands in the cache for the next one.
+  const sessions = await withTimeout(
+    getCached(`sessions:${depth}`, SESSIONS_TTL_MS, () => querySessions(depth)),
+    QUERY_TIMEOUT_MS,
+    null,
+  );
+  return sessions ?? [];
+}
+
+const MAX_SEARCH_TERMS = 3; // parallel `kb search` calls per prompt
+const KB_RESULT_LIMIT = 5; // items injected after re-ranking
 
 /**
- * Extract the best single search keyword from a prompt.
+ * Extract the most distinctive search keywords from a prompt.
  * TRIBE's KB search uses LIKE matching which doesn't handle multi-word
- * queries well. We pick the longest non-stop-word as the most distinctive term.
+ * queries well, so each keyword is searched separately. Longer words tend
+ * to be more distinctive, so they go first.
  */
-function extractSearchKeyword(prompt: string): string {
-  const words = prompt
-    .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, " ")
-    .split(/\s+/)
-    .filter((w) => w.length >= 3 && !STOP_WORDS.has(w));
+function extractSearchKeywords(prompt: string, max = MAX_SEARCH_TERMS): string[] {
+  const words = Array.from(new Set(tokenize(prompt)));
 
-  if (words.length === 0) return prompt.trim().split(/\s+/)[0] || prompt;
+  if (words.length === 0) {
+    const first = prompt.trim().split(/\s+/)[0] || prompt;
+    return first ? [first] : [];
+  }
 
-  // Pick the longest word — longer words tend to be more distinctive
   words.sort((a, b) => b.length - a.length);
-  return words[0];
+  return words.slice(0, max);
 }
 
-async function runKBSearch(term: string): Promise<KBMatch[]> {
-  const result = await withTimeout(
-    run(["-beta", "kb", "search", term, "--format", "json"], {
+/**
+ * Strip the Muse envelope from a KB document so only the body is injected,
+ * keeping the metadata alongside.
+ */
+function unwrapEnvelope(match: KBMatch): KBMatch {
+  const { meta, body } = parseEnvelope(match.text);
+  if (!meta) return match;
+  return { ...match, text: body, category: match.category ?? meta.category, meta };
+}
+
+async function queryKB(term: string): Promise<KBMatch[] | null> {
+  try {
+    const hits = await runJson(["-beta", "kb", "search", term], {
       timeout: "fast",
-    }),
+      priority: "context",
+      parse: parseKBSearchHits,
+    });
+    return hits.map((hit) =>
+      unwrapEnvelope({
+        id: hit.id,
+        category: hit.category,
+        text: hit.content,
+        cliScore: hit.score,
+        matchType: hit.matchType,
+      }),
+    );
+  } catch {
+    return null;
+  }
+}
+
+async function runKBSearch(term: string): Promise<KBMatch[]> {
+  const matches = await withTimeout(
+    getCached(`kb:${term}`, KB_TTL_MS, () => queryKB(term)),
     QUERY_TIMEOUT_MS,
-    { stdout: "[]", stderr: "", exitCode: 1 },
+    null,
   );
+  return (matches ?? []).map((m) => ({ ...m, keyword: term }));
+}
 
-  if (result.exitCode !== 0) return [];
+// ---------------------------------------------------------------------------
+// KB ranking — the CLI returns per-keyword LIKE hits, so we merge them and
+// re-rank locally with BM25 against every term in the prompt.
+// ---------------------------------------------------------------------------
 
-  try {
-    const raw = extractJSON(result.stdout);
-    // KB search returns: [{document: {id, content, category, ...}, score, snippet, match_type}]
-    return (Array.isArray(raw) ? raw : []).slice(0, 5).map(
-      (entry: Record<string, unknown>) => {
-        const doc = (entry.document ?? {}) as Record<string, unknown>;
-        return {
-          id: String(doc.id ?? entry.id ?? ""),
-          category: (doc.category ?? entry.category)
-            ? String(doc.category ?? entry.category)
-            : undefined,
-          text: String(doc.content ?? entry.snippet ?? entry.content ?? entry.text ?? ""),
-        };
-      },
-    );
-  } catch {
-    return [];
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+function mergeKBResults(batches: KBMatch[][]): KBMatch[] {
+  const merged = new Map<string, KBMatch>();
+  for (const batch of batches) {
+    for (const match of batch) {
+      const key = match.id || match.text;
+      if (!key || merged.has(key)) continue;
+      merged.set(key, match);
+    }
   }
+  return Array.from(merged.values());
 }
 
-async function searchKB(query: string): Promise<KBMatch[]> {
-  const keyword = extractSearchKeyword(query);
-  const results = await runKBSearch(keyword);
-  if (results.length > 0) return results;
+/**
+ * Score documents against the query terms with Okapi BM25. Document terms
+ * match a query term by prefix so "migration" also counts "migrations",
+ * mirroring the CLI's LIKE semantics.
+ */
+function rankBM25(queryTerms: string[], docs: KBMatch[]): KBMatch[] {
+  const terms = Array.from(new Set(queryTerms));
+  const docTokens = docs.map((d) => tokenize(`${d.category ?? ""} ${d.text}`));
+  const avgLength =
+    docTokens.reduce((sum, tokens) => sum + tokens.length, 0) / Math.max(docTokens.length, 1) || 1;
+
+  const termFreqs = docTokens.map((tokens) =>
+    terms.map((term) => tokens.filter((t) => t.startsWith(term)).length),
+  );
+
+  const idf = terms.map((_, i) => {
+    const df = termFreqs.filter((tf) => tf[i] > 0).length;
+    return Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+  });
 
-  // Fallback: try the second-best keyword if the first yielded nothing
-  const words = query
-    .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, " ")
-    .split(/\s+/)
-    .filter((w) => w.length >= 3 && !STOP_WORDS.has(w));
-  words.sort((a, b) => b.length - a.length);
+  return docs
+    .map((doc, d) => {
+      const length = docTokens[d].length;
+      let score = 0;
+      termFreqs[d].forEach((tf, i) => {
+        if (tf === 0) return;
+        score +=
+          idf[i] * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * length) / avgLength)));
+      });
+      return { ...doc, relevance: score };
+    })
+    .sort((a, b) => (b.relevance ?? 0) - (a.relevance ?? 0));
+}
 
-  if (words.length > 1 && words[1] !== keyword) {
-    return runKBSearch(words[1]);
+/**
+ * Answer from the local KB mirror. Returns `null` when the index is empty or
+ * has no hits, so the caller falls back to the CLI.
+ */
+async function searchLocalKB(query: string): Promise<KBMatch[] | null> {
+  const hits = await searchKBIndex(query, KB_RESULT_LIMIT);
+  if (!hits || hits.length === 0) return null;
+  return hits.map((hit) =>
+    unwrapEnvelope({
+      id: hit.id,
+      category: hit.category,
+      text: hit.text,
+      matchType: hit.fuzzy.length > 0 ? `local, fuzzy: ${hit.fuzzy.join(" ")}` : "local",
+      relevance: hit.score,
+    }),
+  );
+}
+
+/**
+ * Search the KB with several prompt keywords in parallel, then merge, dedupe
+ * and re-rank the hits so the injected items match the whole prompt rather
+ * than whichever single keyword happened to be searched. The local mirror
+ * answers first; the CLI is only queried when it has nothing.
+ */
+async function searchKB(query: string): Promise<KBSearchResult> {
+  const keywords = extractSearchKeywords(query);
+  if (keywords.length === 0) return { keywords, matches: [] };
+
+  const local = await searchLocalKB(query);
+  if (local) return { keywords, matches: local };
+  if (await featureUnavailable("kb")) return { keywords, matches: [] };
+
+  // Each search already races QUERY_TIMEOUT_MS, so the batch does too
+  const batches = await Promise.all(keywords.map((k) => runKBSearch(k)));
+  const candidates = mergeKBResults(batches);
+  if (candidates.length === 0) return { keywords, matches: [] };
+
+  const queryTerms = tokenize(query);
+  if (queryTerms.length === 0) {
+    return { keywords, matches: candidates.slice(0, KB_RESULT_LIMIT) };
   }
 
-  return [];
+  const ranked = rankBM25(queryTerms, candidates);
+  const relevant = ranked.filter((r) => (r.relevance ?? 0) > 0);
+  return {
+    keywords,
+    matches: (relevant.length > 0 ? relevant : ranked).slice(0, KB_RESULT_LIMIT),
+  };
 }
 
 // ---------------------------------------------------------------------------
@@ -241,97 +338,523 @@ function formatTimestamp(iso: string): string {
   }
 }
 
-function formatSessions(sessions: SessionMeta[], depth: ContextDepth): string {
-  if (sessions.length === 0) return "";
+function formatSessions(
+  sessions: Session[],
+  depth: ContextDepth,
+  scopedToWorkspace = false,
+): ContextSection | null {
+  if (sessions.length === 0) return null;
 
-  const lines = sessions.map((s) => {
+  const items: ContextItem[] = sessions.map((s) => {
     const time = formatTimestamp(s.startedAt);
     const dur = s.duration ? ` (${s.duration})` : "";
     const branch = s.branch ? `, branch: ${s.branch}` : "";
     const summary = depth === "deep" && s.summary ? `\n    ${s.summary}` : "";
-    return `- ${time}: ${s.tool} on ${s.project || "unknown project"}${dur}${branch}${summary}`;
+    const source = s.id ? ` (session:${s.id})` : "";
+    const label = `${s.tool} on ${s.project || "unknown project"}`;
+    return {
+      id: s.id ? `session:${s.id}` : undefined,
+      text: `- ${time}: ${label}${dur}${branch}${source}${summary}`,
+      trace: { preview: `${label}, ${time}` },
+    };
   });
 
-  return `Recent Activity:\n${lines.join("\n")}`;
+  const heading = scopedToWorkspace ? "Recent Activity (this project):" : "Recent Activity:";
+  return { name: "sessions", heading, priority: 20, items };
 }
 
-function formatKBResults(results: KBMatch[]): string {
-  if (results.length === 0) return "";
+const KB_ITEM_CHARS = 200;
+
+/**
+ * Shorten an entry for injection. A postmortem keeps its final error line,
+ * which says more about what to avoid than the rest of it.
+ */
+function shortenKBText(r: KBMatch): string {
+  const clip = (text: string) =>
+    text.length > KB_ITEM_CHARS ? text.slice(0, KB_ITEM_CHARS) + "..." : text;
+  if (r.text.length <= KB_ITEM_CHARS) return r.text;
+
+  const finalError = r.meta?.outcome === "failed" ? r.text.match(/^Final error: .*$/m)?.[0] : undefined;
+  if (!finalError) return clip(r.text);
+  return `${clip(r.text.replace(finalError, "").trim())}\n${clip(finalError)}`;
+}
 
-  const lines = results.map((r) => {
-    const cat = r.category ? `[${r.category}] ` : "";
-    const text = r.text.length > 200 ? r.text.slice(0, 200) + "..." : r.text;
-    return `- ${cat}${text}`;
+function formatKBItems(results: KBMatch[], showCategory: boolean): ContextItem[] {
+  return results.map((r) => {
+    const cat = showCategory && r.category ? `[${r.category}] ` : "";
+    const text = shortenKBText(r);
+    // Source id goes first so budget trimming never cuts it off
+    const source = r.id ? `(kb:${r.id}) ` : "";
+    const details = [
+      r.category && `category ${r.category}`,
+      r.relevance !== undefined && `relevance ${r.relevance.toFixed(2)}`,
+      r.cliScore !== undefined && `cli score ${r.cliScore}`,
+      r.matchType && `match ${r.matchType}`,
+      r.keyword && `via "${r.keyword}"`,
+      r.meta?.project && `project ${r.meta.project}`,
+      r.meta?.capturedAt && `captured ${r.meta.capturedAt}`,
+      r.meta?.outcome === "failed" && "failed run",
+    ].filter((d): d is string => Boolean(d));
+    return {
+      id: r.id ? `kb:${r.id}` : undefined,
+      text: `- ${cat}${source}${text}`,
+      trace: { preview: preview(r.text), details },
+    };
   });
+}
 
-  return `Relevant Knowledge:\n${lines.join("\n")}`;
+/**
+ * Postmortems of failed runs get their own section, so the agent reads them
+ * as approaches to avoid rather than as answers.
+ */
+function formatKBResults(results: KBMatch[]): ContextSection[] {
+  const failed = results.filter((r) => r.meta?.outcome === "failed");
+  const knowledge = results.filter((r) => r.meta?.outcome !== "failed");
+
+  const sections: ContextSection[] = [];
+  if (knowledge.length > 0) {
+    sections.push({
+      name: "knowledge",
+      heading: "Relevant Knowledge:",
+      priority: 10,
+      items: formatKBItems(knowledge, true),
+    });
+  }
+  if (failed.length > 0) {
+    sections.push({
+      name: "failures",
+      heading: "Previously Tried and Failed:",
+      priority: 10,
+      items: formatKBItems(failed, false),
+    });
+  }
+  return sections;
 }
 
-function detectActiveProject(sessions: SessionMeta[]): string {
-  if (sessions.length === 0) return "";
+/**
+ * The workspace Moltbot runs in wins over session history; without one we
+ * fall back to whatever project was touched most recently.
+ */
+function detectActiveProject(
+  sessions: Session[],
+  workspace: WorkspaceInfo | null,
+): ContextSection | null {
+  if (workspace) {
+    const branchName = workspace.branch ?? sessions[0]?.branch;
+    const branch = branchName ? ` (branch: ${branchName})` : "";
+    return {
+      name: "project",
+      priority: 0,
+      items: [{ text: `Active Project: ${workspace.root}${branch}` }],
+    };
+  }
+
+  if (sessions.length === 0) return null;
   const recent = sessions[0];
+  if (!recent.project) return null;
   const branch = recent.branch ? ` (branch: ${recent.branch})` : "";
-  return recent.project ? `Active Project: ${recent.project}${branch}` : "";
+  return {
+    name: "project",
+    priority: 0,
+    items: [{ text: `Active Project: ${recent.project}${branch}` }],
+  };
+}
+
+function preview(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > 120 ? flat.slice(0, 120) + "..." : flat;
+}
+
+// ---------------------------------------------------------------------------
+// Built-in providers
+// ---------------------------------------------------------------------------
+
+/**
+ * Prefer activity in the current workspace; fall back to global activity
+ * only when none of the recent sessions belong to it.
+ */
+function scopeSessions(
+  sessions: Session[],
+  workspace: WorkspaceInfo | null,
+): { sessions: Session[]; scoped: boolean } {
+  const inWorkspace = workspace
+    ? sessions.filter((s) => isWorkspaceProject(s.project, workspace))
+    : [];
+  return inWorkspace.length > 0
+    ? { sessions: inWorkspace, scoped: true }
+    : { sessions, scoped: false };
+}
+
+const sessionsProvider: ContextProvider = {
+  name: "sessions",
+  minDepth: "minimal",
+  requiresTribe: true,
+  async fetch(_prompt, { depth, workspace }) {
+    // Both queries are shared with the project provider, so this costs nothing extra
+    const [all, ws] = await Promise.all([fetchRecentSessions(depth), workspace]);
+    const { sessions, scoped } = scopeSessions(all, ws);
+    const section = formatSessions(sessions, depth, scoped);
+    return { sections: section ? [section] : [] };
+  },
+};
+
+const knowledgeProvider: ContextProvider = {
+  name: "knowledge",
+  minDepth: "standard",
+  requiresTribe: true,
+  async fetch(prompt) {
+    // Only search KB when the prompt has substance
+    if (prompt.length < 5) return { sections: [] };
+    const { keywords, matches } = await searchKB(prompt);
+    return { sections: formatKBResults(matches), keywords };
+  },
+};
+
+const projectProvider: ContextProvider = {
+  name: "project",
+  minDepth: "minimal",
+  async fetch(_prompt, { depth, workspace }) {
+    const ws = await workspace;
+    // Without a workspace the active project comes from session history
+    const all = ws && ws.branch ? [] : await fetchRecentSessions(depth);
+    const section = detectActiveProject(scopeSessions(all, ws).sessions, ws);
+    return { sections: section ? [section] : [] };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Provider registry — built-ins first, in their default display order
+// ---------------------------------------------------------------------------
+
+const providers = new Map<string, ContextProvider>();
+
+for (const provider of [sessionsProvider, knowledgeProvider, projectProvider, gitProvider]) {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Register an additional context provider. A provider registered under an
+ * existing name replaces it. Unless `contextProviders` is configured, every
+ * registered provider runs, in registration order.
+ */
+export function registerContextProvider(provider: ContextProvider): void {
+  providers.set(provider.name, provider);
+}
+
+const DEPTH_RANK: Record<ContextDepth, number> = { minimal: 0, standard: 1, deep: 2 };
+
+// ---------------------------------------------------------------------------
+// Budget packing — fills the context budget by section priority, trimming
+// the item that straddles the limit and dropping whatever is left over.
+// ---------------------------------------------------------------------------
+
+const CHARS_PER_TOKEN = 4; // rough estimate, good enough for budgeting
+const DEFAULT_BUDGET_TOKENS = 1_000;
+const MIN_ITEM_CHARS = 60; // don't bother keeping an item trimmed below this
+
+const OPEN_TAG = "<muse-context>\n";
+const CLOSE_TAG = "\n</muse-context>";
+const SECTION_SEPARATOR = "\n\n";
+
+function trimToLength(text: string, max: number): string {
+  if (text.length <= max) return text;
+  return text.slice(0, Math.max(0, max - 3)).trimEnd() + "...";
+}
+
+/**
+ * Pack sections into the budget. Sections are given in display order and
+ * returned in display order; packing itself goes by priority.
+ */
+function packSections(
+  sections: ContextSection[],
+  budgetChars: number,
+): { sections: ContextSection[]; trimmed: number; dropped: Record<string, number> } {
+  let remaining = budgetChars - OPEN_TAG.length - CLOSE_TAG.length;
+  let trimmed = 0;
+  const dropped: Record<string, number> = {};
+  const packed = new Map<ContextSection, ContextSection>();
+
+  // Stable sort keeps display order among equal priorities
+  const byPriority = [...sections].sort((a, b) => a.priority - b.priority);
+
+  for (const section of byPriority) {
+    const overhead =
+      (packed.size > 0 ? SECTION_SEPARATOR.length : 0) +
+      (section.heading ? section.heading.length + 1 : 0);
+    const items: ContextItem[] = [];
+    let room = remaining - overhead;
+
+    for (const item of section.items) {
+      // Every item after the first costs a newline
+      const cost = item.text.length + (items.length > 0 ? 1 : 0);
+      if (cost <= room) {
+        items.push(item);
+        room -= cost;
+      } else if (room - 1 >= MIN_ITEM_CHARS) {
+        const max = room - (items.length > 0 ? 1 : 0);
+        items.push({ ...item, text: trimToLength(item.text, max), trimmed: true });
+        trimmed++;
+        room = 0;
+      } else {
+        dropped[section.name] = (dropped[section.name] ?? 0) + 1;
+      }
+    }
+
+    if (items.length > 0) {
+      packed.set(section, { ...section, items });
+      remaining = room;
+    }
+  }
+
+  return {
+    sections: sections.flatMap((s) => {
+      const p = packed.get(s);
+      return p ? [p] : [];
+    }),
+    trimmed,
+    dropped,
+  };
+}
+
+function renderSections(sections: ContextSection[]): string {
+  const blocks = sections.map((s) => {
+    const lines = s.items.map((i) => i.text).join("\n");
+    return s.heading ? `${s.heading}\n${lines}` : lines;
+  });
+  return `${OPEN_TAG}${blocks.join(SECTION_SEPARATOR)}${CLOSE_TAG}`;
+}
+
+// ---------------------------------------------------------------------------
+// Per-conversation deduplication
+// ---------------------------------------------------------------------------
+
+function formatRepeatNote(count: number): ContextItem {
+  const noun = count === 1 ? "item" : "items";
+  return { text: `- (${count} previously shown ${noun} still relevant)` };
+}
+
+/**
+ * Replace items already injected earlier in the conversation with a short
+ * note. Sections left with nothing but the note keep it, so the agent knows
+ * the earlier context still applies.
+ */
+function withoutRepeats(
+  section: ContextSection,
+  alreadyInjected: ReadonlySet<string> | undefined,
+): ContextSection {
+  if (!alreadyInjected) return section;
+  const fresh = section.items.filter((i) => !i.id || !alreadyInjected.has(i.id));
+  const repeated = section.items.length - fresh.length;
+  if (repeated === 0) return section;
+  return { ...section, items: [...fresh, formatRepeatNote(repeated)] };
 }
 
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
+export interface BuildContextOptions {
+  depth?: ContextDepth;
+  /** Maximum size of the injected block, in estimated tokens. */
+  budgetTokens?: number;
+  /** Directory the agent works in; scopes sessions and the active project. */
+  workspaceDir?: string;
+  /** Source ids already injected earlier in this conversation; only new ones are repeated in full. */
+  alreadyInjected?: ReadonlySet<string>;
+  /** Moltbot session key, recorded in the injection history. */
+  sessionKey?: string;
+  /** Providers to run, in display order. Defaults to every registered provider. */
+  providers?: string[];
+}
+
+export interface ContextBudgetReport {
+  limitChars: number;
+  usedChars: number;
+  /** Items shortened to fit the budget. */
+  trimmed: number;
+  /** Items left out entirely, by section. */
+  dropped: Record<string, number>;
+}
+
+export interface ContextResult {
+  text: string;
+  sections: string[];
+  budget: ContextBudgetReport;
+  /** Source ids of the items that made it into `text`. */
+  injected: string[];
+}
+
+async function timed<T>(promise: Promise<T>): Promise<[T, number]> {
+  const started = Date.now();
+  const value = await promise;
+  return [value, Date.now() - started];
+}
+
+async function runProvider(
+  provider: ContextProvider,
+  prompt: string,
+  input: ContextProviderInput,
+): Promise<ContextProviderResult> {
+  const ms = Math.min(provider.timeoutMs ?? QUERY_TIMEOUT_MS, QUERY_TIMEOUT_MS);
+  try {
+    return await withTimeout(provider.fetch(prompt, input), ms, { sections: [] });
+  } catch {
+    // A broken provider must never take the others down with it
+    return { sections: [] };
+  }
+}
+
+/**
+ * Work out what happened to each candidate item so muse_context_explain can
+ * show not only what was injected but what was left out and why.
+ */
+function traceItems(
+  candidates: ContextSection[],
+  packed: ContextSection[],
+  alreadyInjected: ReadonlySet<string> | undefined,
+): InjectionItem[] {
+  const packedItems = new Map<string, ContextItem>();
+  for (const item of packed.flatMap((s) => s.items)) {
+    if (item.id) packedItems.set(item.id, item);
+  }
+
+  return candidates.flatMap((section) =>
+    section.items.flatMap((item): InjectionItem[] => {
+      if (!item.id) return [];
+      const inText = packedItems.get(item.id);
+      const status = alreadyInjected?.has(item.id)
+        ? "repeated"
+        : !inText
+          ? "dropped"
+          : inText.trimmed
+            ? "trimmed"
+            : "injected";
+      return [{
+        section: section.name,
+        id: item.id,
+        status,
+        preview: item.trace?.preview ?? preview(item.text),
+        details: item.trace?.details,
+      }];
+    }),
+  );
+}
+
 /**
  * Build a TRIBE context block for injection into the agent's system prompt.
- * Returns `null` if TRIBE is unavailable or no useful context was found.
+ * Runs every enabled provider in parallel and packs their sections into the
+ * budget. Returns `null` if no provider found anything useful. Every call is
+ * recorded in the injection history for muse_context_explain.
  *
  * Target: <500ms total execution time.
  */
 export async function buildContext(
   prompt: string,
-  depth: ContextDepth = "standard",
-): Promise<string | null> {
-  // Bail early if TRIBE CLI is not installed
-  const installed = await ensureInstalled();
-  if (!installed) return null;
-
-  // Run queries in parallel for speed
-  const queries: [Promise<SessionMeta[]>, Promise<KBMatch[]>?] = [
-    fetchRecentSessions(depth),
-  ];
+  options: BuildContextOptions = {},
+): Promise<ContextResult | null> {
+  const {
+    depth = "standard",
+    budgetTokens = DEFAULT_BUDGET_TOKENS,
+    workspaceDir,
+    alreadyInjected,
+    sessionKey,
+  } = options;
+
+  const started = Date.now();
+  const record: InjectionRecord = {
+    at: new Date(started).toISOString(),
+    sessionKey,
+    prompt,
+    depth,
+    keywords: [],
+    outcome: "no-results",
+    items: [],
+    skipped: [],
+    timings: {},
+  };
+
+  const enabled = (options.providers ?? Array.from(providers.keys()))
+    .map((name) => providers.get(name))
+    .filter((p): p is ContextProvider => p !== undefined);
 
-  // Only search KB for standard/deep depth AND when prompt has substance
-  if (depth !== "minimal" && prompt.length >= 5) {
-    queries.push(searchKB(prompt));
-  }
+  const installed = await ensureInstalled();
+  const runnable = enabled.filter((p) => {
+    if (DEPTH_RANK[depth] < DEPTH_RANK[p.minDepth]) {
+      record.skipped.push(`${p.name} (below ${p.minDepth} depth)`);
+      return false;
+    }
+    if (p.requiresTribe && !installed) {
+      record.skipped.push(`${p.name} (TRIBE CLI not installed)`);
+      return false;
+    }
+    return true;
+  });
 
-  const [sessions, kbResults] = await Promise.all([
-    queries[0],
-    queries[1] ?? Promise.resolve([]),
-  ]);
+  const input: ContextProviderInput = {
+    depth,
+    workspaceDir,
+    workspace: workspaceDir ? resolveWorkspace(workspaceDir) : Promise.resolve(null),
+  };
 
-  // If we have nothing useful, skip injection
-  if (sessions.length === 0 && kbResults.length === 0) return null;
+  // Run providers in parallel for speed
+  const results = await Promise.all(
+    runnable.map((p) => timed(runProvider(p, prompt, input))),
+  );
 
-  const parts: string[] = [];
+  const candidates: ContextSection[] = [];
+  results.forEach(([result, ms], i) => {
+    record.timings[runnable[i].name] = ms;
+    candidates.push(...result.sections.filter((s) => s.items.length > 0));
+    if (result.keywords) record.keywords.push(...result.keywords);
+  });
+  record.workspace = (await input.workspace)?.root;
+
+  // If we have nothing useful, skip injection. The active project line alone
+  // isn't worth a block.
+  if (candidates.every((s) => s.name === "project")) {
+    record.timings.total = Date.now() - started;
+    recordInjection(record);
+    return null;
+  }
 
-  const sessionsBlock = formatSessions(sessions, depth);
-  if (sessionsBlock) parts.push(sessionsBlock);
+  const limitChars = Math.max(0, Math.floor(budgetTokens * CHARS_PER_TOKEN));
+  const { sections, trimmed, dropped } = packSections(
+    candidates.map((s) => withoutRepeats(s, alreadyInjected)),
+    limitChars,
+  );
 
-  const kbBlock = formatKBResults(kbResults);
-  if (kbBlock) parts.push(kbBlock);
+  record.items = traceItems(candidates, sections, alreadyInjected);
+  record.timings.total = Date.now() - started;
 
-  const projectLine = detectActiveProject(sessions);
-  if (projectLine) parts.push(projectLine);
+  if (sections.length === 0) {
+    recordInjection({ ...record, outcome: "over-budget" });
+    return null;
+  }
 
-  if (parts.length === 0) return null;
+  const text = renderSections(sections);
+  const budget = { limitChars, usedChars: text.length, trimmed, dropped };
+  recordInjection({ ...record, outcome: "injected", budget });
 
-  return `<muse-context>\n${parts.join("\n\n")}\n</muse-context>`;
+  return {
+    text,
+    sections: sections.map((s) => s.name),
+    budget,
+    injected: sections.flatMap((s) => s.items).flatMap((i) => (i.id ? [i.id] : [])),
+  };
 }
 
 /**
- * Invalidate the session cache (useful after a sync).
+ * Mark cached session and KB results stale (useful after a sync).
  */
 export function invalidateCache(): void {
-  sessionCache = null;
+  invalidateContextCache();
 }
 
 // Exported for unit testing only — not part of the public API.
-export const _testing = { extractJSON, extractSearchKeyword, formatTimestamp };
+export const _testing = {
+  extractSearchKeywords,
+  mergeKBResults,
+  rankBM25,
+  packSections,
+  formatTimestamp,
+};
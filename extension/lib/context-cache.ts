@@ -0,0 +1,124 @@
+import { readJsonFile, statePath, writeJsonFile } from "./state-file.js";
+
+// ---------------------------------------------------------------------------
+// Stale-while-revalidate cache for context queries. Entries are persisted in
+// the plugin stateDir so the first turn after a restart still has context;
+// stale entries are served immediately while a refresh runs in the
+// background. Without a stateDir the cache is in-memory only.
+// ---------------------------------------------------------------------------
+
+interface CacheEntry {
+  value: unknown;
+  fetchedAt: number;
+  /** Set after a sync; the entry is served but always revalidated. */
+  invalidated?: boolean;
+}
+
+const CACHE_FILE = "context-cache.json";
+const MAX_STALE_MS = 24 * 60 * 60_000; // never serve anything older than a day
+const MAX_ENTRIES = 200;
+
+let cacheFile: string | null = null;
+let entries = new Map<string, CacheEntry>();
+let loading: Promise<void> | null = null;
+let writing: Promise<void> = Promise.resolve();
+const refreshing = new Map<string, Promise<unknown>>();
+
+function ensureLoaded(): Promise<void> {
+  if (!cacheFile) return Promise.resolve();
+  if (!loading) {
+    const file = cacheFile;
+    loading = readJsonFile<Record<string, CacheEntry>>(file, {}).then((stored) => {
+      // Anything cached in memory before the load finished is newer
+      for (const [key, entry] of Object.entries(stored)) {
+        if (!entries.has(key)) entries.set(key, entry);
+      }
+    });
+  }
+  return loading;
+}
+
+function persist(): void {
+  if (!cacheFile) return;
+  const file = cacheFile;
+
+  // Keep the file bounded — drop the oldest entries first
+  if (entries.size > MAX_ENTRIES) {
+    const sorted = Array.from(entries.entries()).sort((a, b) => b[1].fetchedAt - a[1].fetchedAt);
+    entries = new Map(sorted.slice(0, MAX_ENTRIES));
+  }
+  const snapshot = Object.fromEntries(entries);
+
+  writing = writing
+    .then(() => writeJsonFile(file, snapshot))
+    .catch(() => {
+      // A failed write only costs us persistence, never context
+    });
+}
+
+function refresh<T>(key: string, fetcher: () => Promise<T | null>): Promise<T | null> {
+  const inFlight = refreshing.get(key);
+  if (inFlight) return inFlight as Promise<T | null>;
+
+  const promise = fetcher()
+    .then((value) => {
+      if (value !== null) {
+        entries.set(key, { value, fetchedAt: Date.now() });
+        persist();
+      }
+      return value;
+    })
+    .catch(() => null)
+    .finally(() => refreshing.delete(key));
+
+  refreshing.set(key, promise);
+  return promise;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Point the cache at the plugin stateDir and load any persisted entries.
+ */
+export function configureContextCache(stateDir: string): void {
+  const file = statePath(stateDir, CACHE_FILE);
+  if (file === cacheFile) return;
+  cacheFile = file;
+  loading = null;
+  void ensureLoaded();
+}
+
+/**
+ * Return the cached value for `key`. Fresh entries are returned as-is, stale
+ * ones are returned immediately while `fetcher` refreshes them in the
+ * background, and misses wait for `fetcher`. The fetcher returns `null` on
+ * failure, which is never cached.
+ */
+export async function getCached<T>(
+  key: string,
+  ttlMs: number,
+  fetcher: () => Promise<T | null>,
+): Promise<T | null> {
+  await ensureLoaded();
+
+  const entry = entries.get(key);
+  const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+  if (entry && !entry.invalidated && age < ttlMs) return entry.value as T;
+  if (entry && age < MAX_STALE_MS) {
+    void refresh(key, fetcher);
+    return entry.value as T;
+  }
+  return refresh(key, fetcher);
+}
+
+/**
+ * Mark every entry stale (e.g. after a sync) so the next read revalidates.
+ * Stale entries are still served until their refresh lands.
+ */
+export function invalidateContextCache(): void {
+  for (const entry of entries.values()) entry.invalidated = true;
+  persist();
+}
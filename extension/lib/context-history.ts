@@ -0,0 +1,103 @@
+import type { ContextBudgetReport, ContextDepth } from "./context-builder.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type InjectionItemStatus = "injected" | "trimmed" | "dropped" | "repeated";
+
+export interface InjectionItem {
+  /** Section the item belongs to (named after its provider's section). */
+  section: string;
+  /** Qualified source id, e.g. `kb:<id>`. */
+  id: string;
+  status: InjectionItemStatus;
+  preview: string;
+  /** Provider-specific detail such as scores and match types. */
+  details?: string[];
+}
+
+export interface InjectionRecord {
+  at: string;
+  sessionKey?: string;
+  prompt: string;
+  depth: ContextDepth;
+  keywords: string[];
+  workspace?: string;
+  /** Why the turn ended up with (or without) context. */
+  outcome: "injected" | "no-results" | "over-budget";
+  items: InjectionItem[];
+  /** Providers that did not run, with the reason. */
+  skipped: string[];
+  budget?: ContextBudgetReport;
+  /** Wall-clock time per provider, in milliseconds. */
+  timings: Record<string, number>;
+}
+
+// ---------------------------------------------------------------------------
+// Ring buffer of recent injections (newest last)
+// ---------------------------------------------------------------------------
+
+const MAX_RECORDS = 20;
+const records: InjectionRecord[] = [];
+
+export function recordInjection(record: InjectionRecord): void {
+  records.push(record);
+  if (records.length > MAX_RECORDS) records.splice(0, records.length - MAX_RECORDS);
+}
+
+/**
+ * Most recent injection records, newest first.
+ */
+export function recentInjections(limit = 1): InjectionRecord[] {
+  return records.slice(-Math.max(1, limit)).reverse();
+}
+
+// ---------------------------------------------------------------------------
+// Formatting for muse_context_explain
+// ---------------------------------------------------------------------------
+
+const OUTCOME_TEXT: Record<InjectionRecord["outcome"], string> = {
+  "injected": "context injected",
+  "no-results": "nothing injected — no provider found relevant context",
+  "over-budget": "nothing injected — no item fit the context budget",
+};
+
+function formatItem(item: InjectionItem): string {
+  const detailText = item.details?.length ? ` (${item.details.join(", ")})` : "";
+  return `- [${item.status}] ${item.id}${detailText}\n    ${item.preview}`;
+}
+
+export function formatInjectionRecord(record: InjectionRecord): string {
+  const lines: string[] = [];
+  lines.push(`${record.at} — ${OUTCOME_TEXT[record.outcome]}`);
+  lines.push(`Prompt: ${record.prompt}`);
+  lines.push(`Depth: ${record.depth}`);
+  if (record.workspace) lines.push(`Workspace: ${record.workspace}`);
+  lines.push(`Keywords searched: ${record.keywords.join(", ") || "none"}`);
+
+  if (record.budget) {
+    const dropped = Object.entries(record.budget.dropped)
+      .map(([section, count]) => `${count} ${section}`)
+      .join(", ");
+    lines.push(
+      `Budget: ${record.budget.usedChars}/${record.budget.limitChars} chars, ` +
+      `trimmed ${record.budget.trimmed}, dropped ${dropped || "none"}`,
+    );
+  }
+
+  const timings = Object.entries(record.timings)
+    .map(([name, ms]) => `${name} ${ms}ms`)
+    .join(", ");
+  lines.push(`Timings: ${timings}`);
+  if (record.skipped.length > 0) lines.push(`Skipped: ${record.skipped.join(", ")}`);
+
+  const sections = Array.from(new Set(record.items.map((i) => i.section)));
+  for (const section of sections) {
+    lines.push("");
+    lines.push(`${section}:`);
+    lines.push(...record.items.filter((i) => i.section === section).map(formatItem));
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,152 @@
+import type { ContextDepth, ContextItem, ContextProvider } from "./context-builder.js";
+import { git } from "./workspace.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface WorkingTreeStatus {
+  branch?: string;
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  staged: string[];
+  unstaged: string[];
+  untracked: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Parsing — `git status --porcelain=v1 --branch` gives the branch, upstream,
+// ahead/behind counts and the file list in a single process.
+// ---------------------------------------------------------------------------
+
+function parseBranchLine(line: string, status: WorkingTreeStatus): void {
+  // "## main...origin/main [ahead 1, behind 2]", "## No commits yet on main",
+  // "## HEAD (no branch)"
+  const header = line.slice(3);
+  if (header.startsWith("HEAD (no branch)")) return;
+
+  const noCommits = header.match(/^No commits yet on (.+)$/);
+  if (noCommits) {
+    status.branch = noCommits[1];
+    return;
+  }
+
+  const match = header.match(/^(.+?)(?:\.\.\.(\S+))?(?: \[(.+)\])?$/);
+  if (!match) return;
+  status.branch = match[1];
+  status.upstream = match[2];
+  status.ahead = Number(match[3]?.match(/ahead (\d+)/)?.[1] ?? 0);
+  status.behind = Number(match[3]?.match(/behind (\d+)/)?.[1] ?? 0);
+}
+
+function parseStatus(output: string): WorkingTreeStatus {
+  const status: WorkingTreeStatus = {
+    ahead: 0,
+    behind: 0,
+    staged: [],
+    unstaged: [],
+    untracked: [],
+  };
+
+  for (const line of output.split("\n")) {
+    if (line.startsWith("## ")) {
+      parseBranchLine(line, status);
+      continue;
+    }
+    if (line.length < 4) continue;
+
+    const [x, y] = [line[0], line[1]];
+    // Renames are reported as "old -> new"; the new path is what matters
+    const path = line.slice(3).split(" -> ").pop() ?? "";
+
+    if (x === "?" && y === "?") {
+      status.untracked.push(path);
+      continue;
+    }
+    if (x !== " ") status.staged.push(path);
+    if (y !== " ") status.unstaged.push(path);
+  }
+
+  return status;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+const MAX_FILES_LISTED = 10;
+
+function formatFiles(label: string, files: string[]): ContextItem[] {
+  if (files.length === 0) return [];
+  const shown = files.slice(0, MAX_FILES_LISTED).join(", ");
+  const more = files.length > MAX_FILES_LISTED ? ` (+${files.length - MAX_FILES_LISTED} more)` : "";
+  return [{ text: `- ${label} (${files.length}): ${shown}${more}` }];
+}
+
+function formatBranch(status: WorkingTreeStatus, depth: ContextDepth): ContextItem[] {
+  if (!status.branch) return [{ text: "- Branch: detached HEAD" }];
+  if (depth === "minimal" || !status.upstream) return [{ text: `- Branch: ${status.branch}` }];
+
+  const drift =
+    status.ahead === 0 && status.behind === 0
+      ? "up to date with"
+      : `${status.ahead} ahead, ${status.behind} behind`;
+  return [{ text: `- Branch: ${status.branch} (${drift} ${status.upstream})` }];
+}
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+const COMMITS_BY_DEPTH: Record<ContextDepth, number> = { minimal: 0, standard: 5, deep: 10 };
+
+/**
+ * Local git state of the workspace: branch, upstream drift, changed files,
+ * recent commits and (at deep depth) diff stats. Doesn't need TRIBE.
+ */
+export const gitProvider: ContextProvider = {
+  name: "git",
+  minDepth: "minimal",
+  async fetch(_prompt, { depth, workspace }) {
+    const ws = await workspace;
+    if (!ws) return { sections: [] };
+
+    const commitCount = COMMITS_BY_DEPTH[depth];
+    const [statusOut, logOut, unstagedStat, stagedStat] = await Promise.all([
+      git(["status", "--porcelain=v1", "--branch"], ws.root),
+      commitCount > 0
+        ? git(["log", `-n${commitCount}`, "--format=%h %s"], ws.root)
+        : Promise.resolve(null),
+      depth === "deep" ? git(["diff", "--shortstat"], ws.root) : Promise.resolve(null),
+      depth === "deep" ? git(["diff", "--cached", "--shortstat"], ws.root) : Promise.resolve(null),
+    ]);
+
+    // Not a repository (or git unavailable)
+    if (statusOut === null) return { sections: [] };
+
+    // `git` trims stdout, which is safe here: the first line is always "## ..."
+    const status = parseStatus(statusOut);
+    const items: ContextItem[] = [...formatBranch(status, depth)];
+
+    if (depth !== "minimal") {
+      items.push(
+        ...formatFiles("Staged", status.staged),
+        ...formatFiles("Unstaged", status.unstaged),
+        ...formatFiles("Untracked", status.untracked),
+      );
+      if (stagedStat) items.push({ text: `- Staged diff: ${stagedStat}` });
+      if (unstagedStat) items.push({ text: `- Unstaged diff: ${unstagedStat}` });
+      for (const commit of logOut ? logOut.split("\n").filter(Boolean) : []) {
+        items.push({ text: `- Commit ${commit}` });
+      }
+    }
+
+    return {
+      sections: [{ name: "git", heading: "Working Tree:", priority: 5, items }],
+    };
+  },
+};
+
+// Exported for unit testing only — not part of the public API.
+export const _testing = { parseStatus };
@@ -0,0 +1,54 @@
+// ---------------------------------------------------------------------------
+// Per-conversation record of what context has already been injected, keyed
+// by Moltbot session key, so later turns only repeat new material.
+//
+// `agent_end` fires after every turn, not once per session, so a record
+// lives for the whole conversation. It is dropped once the conversation has
+// been idle for a while, or when too many others have been active since.
+// ---------------------------------------------------------------------------
+
+const MAX_TRACKED_CONVERSATIONS = 100;
+const IDLE_TTL_MS = 6 * 60 * 60_000; // 6 hours
+
+interface Conversation {
+  ids: Set<string>;
+  touchedAt: number;
+}
+
+// Map iteration order doubles as LRU order: touched entries are re-inserted
+const conversations = new Map<string, Conversation>();
+
+function lookup(sessionKey: string): Conversation | undefined {
+  const state = conversations.get(sessionKey);
+  if (state && Date.now() - state.touchedAt >= IDLE_TTL_MS) {
+    conversations.delete(sessionKey);
+    return undefined;
+  }
+  return state;
+}
+
+function touch(sessionKey: string): Conversation {
+  const state = lookup(sessionKey) ?? { ids: new Set<string>(), touchedAt: 0 };
+  state.touchedAt = Date.now();
+  conversations.delete(sessionKey);
+  conversations.set(sessionKey, state);
+
+  while (conversations.size > MAX_TRACKED_CONVERSATIONS) {
+    const oldest = conversations.keys().next().value;
+    if (oldest === undefined) break;
+    conversations.delete(oldest);
+  }
+  return state;
+}
+
+/**
+ * Source ids (e.g. `kb:<id>`) already injected into this conversation.
+ */
+export function getInjected(sessionKey: string): ReadonlySet<string> {
+  return lookup(sessionKey)?.ids ?? new Set();
+}
+
+export function recordInjected(sessionKey: string, sourceIds: string[]): void {
+  const state = touch(sessionKey);
+  for (const id of sourceIds) state.ids.add(id);
+}
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { formatEnvelope, hashContent, matchesFilter, parseEnvelope, PLUGIN_VERSION } from "./kb-envelope.js";
+
+const body = "Run migrations with `npm run db:migrate` before starting the API.";
+
+test("formatted entries parse back to the same metadata and body", () => {
+  const content = formatEnvelope(
+    {
+      category: "debugging",
+      labels: ["debugging", "deployment"],
+      tags: ["database", "typescript"],
+      project: "/home/me/api",
+      branch: "main",
+      capturedAt: "2026-01-15T10:00:00.000Z",
+    },
+    body,
+  );
+  assert.ok(content.startsWith("[Muse debugging]\nTags: database, typescript\nMuse-Meta: {"));
+
+  const { meta, body: parsed } = parseEnvelope(content);
+  assert.equal(parsed, body);
+  assert.deepEqual(meta, {
+    category: "debugging",
+    labels: ["debugging", "deployment"],
+    tags: ["database", "typescript"],
+    project: "/home/me/api",
+    branch: "main",
+    capturedAt: "2026-01-15T10:00:00.000Z",
+    pluginVersion: PLUGIN_VERSION,
+    contentHash: hashContent(body),
+  });
+});
+
+test("legacy headers keep their category and tags", () => {
+  const { meta, body: parsed } = parseEnvelope(`[Muse architecture]\nTags: api, cache\n\n${body}`);
+  assert.deepEqual(meta, { category: "architecture", tags: ["api", "cache"], legacy: true });
+  assert.equal(parsed, body);
+});
+
+test("a malformed meta line falls back to the header", () => {
+  const { meta, body: parsed } = parseEnvelope(`[Muse testing]\nMuse-Meta: {not json\n\n${body}`);
+  assert.deepEqual(meta, { category: "testing", tags: [], legacy: true });
+  assert.equal(parsed, body);
+});
+
+test("content not written by Muse is returned unchanged", () => {
+  const content = "# Runbook\n\n[Muse debugging] appears later, not on the first line";
+  assert.deepEqual(parseEnvelope(content), { meta: null, body: content });
+});
+
+test("filters match case-insensitively and never match foreign entries", () => {
+  const meta = parseEnvelope(
+    formatEnvelope(
+      {
+        category: "debugging",
+        labels: ["debugging", "performance"],
+        tags: ["Postgres"],
+        project: "/home/me/Work/api",
+        branch: "main",
+        capturedAt: "2026-03-01T00:00:00.000Z",
+      },
+      body,
+    ),
+  ).meta;
+
+  assert.equal(matchesFilter(meta, {}), true);
+  assert.equal(matchesFilter(meta, { category: "Performance" }), true);
+  assert.equal(matchesFilter(meta, { tag: "postgres", project: "work/api" }), true);
+  assert.equal(matchesFilter(meta, { branch: "develop" }), false);
+  assert.equal(matchesFilter(meta, { since: "2026-02-01" }), true);
+  assert.equal(matchesFilter(meta, { since: "2026-04-01" }), false);
+  assert.equal(matchesFilter(meta, { since: "not a date" }), false);
+  assert.equal(matchesFilter(null, { category: "debugging" }), false);
+  assert.equal(matchesFilter(null, {}), true);
+});
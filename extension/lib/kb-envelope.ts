@@ -0,0 +1,215 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+
+// ---------------------------------------------------------------------------
+// Structured envelope for KB entries written by Muse. The first lines stay
+// human-readable (and compatible with older entries); the `Muse-Meta:` line
+// carries the machine-readable fields:
+//
+//   [Muse debugging]
+//   Tags: typescript, database
+//   Muse-Meta: {"v":1,"category":"debugging",...}
+//
+//   <summary>
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface KBEntryMeta {
+  category: string;
+  /** Every category the conversation scored for, best first. */
+  labels?: string[];
+  /** Confidence in `category`, 0–1. */
+  confidence?: number;
+  tags: string[];
+  /** Workspace repository root at capture time. */
+  project?: string;
+  branch?: string;
+  /** Moltbot session key of the captured conversation. */
+  sessionKey?: string;
+  /** ISO timestamp. */
+  capturedAt?: string;
+  /** `failed` for postmortems of unsuccessful runs; absent otherwise. */
+  outcome?: "failed";
+  pluginVersion?: string;
+  /** `sha256:` prefix plus the first 16 hex chars of the body hash. */
+  contentHash?: string;
+  /** True for `[Muse ...]` entries written before the envelope existed. */
+  legacy?: boolean;
+}
+
+export interface ParsedKBEntry {
+  /** `null` for entries not written by Muse. */
+  meta: KBEntryMeta | null;
+  body: string;
+}
+
+export interface KBEntryFilter {
+  category?: string;
+  tag?: string;
+  /** Partial match against the project path. */
+  project?: string;
+  branch?: string;
+  sessionKey?: string;
+  /** Only entries captured at or after this date. */
+  since?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ENVELOPE_VERSION = 1;
+const HEADER_RE = /^\[Muse ([\w-]+)\]$/;
+const TAGS_PREFIX = "Tags: ";
+const META_PREFIX = "Muse-Meta: ";
+
+function readPluginVersion(): string {
+  try {
+    const pkg = JSON.parse(
+      readFileSync(new URL("../package.json", import.meta.url), "utf-8"),
+    ) as { version?: string };
+    return pkg.version ?? "unknown";
+  } catch {
+    return "unknown";
+  }
+}
+
+export const PLUGIN_VERSION = readPluginVersion();
+
+export function hashContent(body: string): string {
+  return `sha256:${createHash("sha256").update(body.trim()).digest("hex").slice(0, 16)}`;
+}
+
+function parseMetaLine(line: string): Partial<KBEntryMeta> | null {
+  try {
+    const raw = JSON.parse(line.slice(META_PREFIX.length)) as Record<string, unknown>;
+    if (!raw || typeof raw !== "object") return null;
+    const str = (v: unknown) => (typeof v === "string" && v ? v : undefined);
+    return {
+      category: str(raw.category),
+      labels: Array.isArray(raw.labels) ? raw.labels.map(String) : undefined,
+      confidence: typeof raw.confidence === "number" ? raw.confidence : undefined,
+      tags: Array.isArray(raw.tags) ? raw.tags.map(String) : undefined,
+      project: str(raw.project),
+      branch: str(raw.branch),
+      sessionKey: str(raw.sessionKey),
+      capturedAt: str(raw.capturedAt),
+      outcome: raw.outcome === "failed" ? "failed" : undefined,
+      pluginVersion: str(raw.pluginVersion),
+      contentHash: str(raw.contentHash),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Serialize a KB entry. `contentHash` and `pluginVersion` are filled in here.
+ */
+export function formatEnvelope(
+  meta: Omit<KBEntryMeta, "contentHash" | "pluginVersion" | "legacy">,
+  body: string,
+): string {
+  const full: KBEntryMeta = {
+    ...meta,
+    pluginVersion: PLUGIN_VERSION,
+    contentHash: hashContent(body),
+  };
+  const json = JSON.stringify({ v: ENVELOPE_VERSION, ...full });
+  const lines = [`[Muse ${meta.category}]`];
+  if (meta.tags.length > 0) lines.push(`${TAGS_PREFIX}${meta.tags.join(", ")}`);
+  lines.push(`${META_PREFIX}${json}`);
+  return `${lines.join("\n")}\n\n${body}`;
+}
+
+/**
+ * Split a KB document into its Muse metadata and body. Handles both the
+ * structured envelope and legacy `[Muse category]` / `Tags:` headers; any
+ * other content is returned unchanged with `meta: null`.
+ */
+export function parseEnvelope(content: string): ParsedKBEntry {
+  const lines = content.split("\n");
+  const header = lines[0]?.trim().match(HEADER_RE);
+  if (!header) return { meta: null, body: content };
+
+  const meta: KBEntryMeta = { category: header[1], tags: [], legacy: true };
+  let i = 1;
+
+  if (lines[i]?.startsWith(TAGS_PREFIX)) {
+    meta.tags = lines[i].slice(TAGS_PREFIX.length).split(",").map((t) => t.trim()).filter(Boolean);
+    i++;
+  }
+
+  if (lines[i]?.startsWith(META_PREFIX)) {
+    const parsed = parseMetaLine(lines[i]);
+    if (parsed) {
+      // Fields the line doesn't carry keep the header's values
+      const defined = Object.entries(parsed).filter(([, value]) => value !== undefined);
+      Object.assign(meta, Object.fromEntries(defined));
+      delete meta.legacy;
+    }
+    i++;
+  }
+
+  // Skip the blank separator line(s)
+  while (i < lines.length && lines[i].trim() === "") i++;
+  return { meta, body: lines.slice(i).join("\n") };
+}
+
+export function hasFilter(filter: KBEntryFilter): boolean {
+  return Object.values(filter).some((v) => v !== undefined && v !== "");
+}
+
+/**
+ * Check a parsed entry against a filter. Entries without Muse metadata never
+ * match a non-empty filter; legacy entries only carry category and tags.
+ */
+export function matchesFilter(meta: KBEntryMeta | null, filter: KBEntryFilter): boolean {
+  if (!hasFilter(filter)) return true;
+  if (!meta) return false;
+
+  const eq = (a: string | undefined, b: string | undefined) =>
+    !b || (a !== undefined && a.toLowerCase() === b.toLowerCase());
+
+  if (filter.category && !eq(meta.category, filter.category) &&
+      !meta.labels?.some((l) => eq(l, filter.category))) {
+    return false;
+  }
+  if (!eq(meta.branch, filter.branch)) return false;
+  if (filter.sessionKey && meta.sessionKey !== filter.sessionKey) return false;
+  if (filter.tag && !meta.tags.some((t) => eq(t, filter.tag))) return false;
+  if (filter.project && !meta.project?.toLowerCase().includes(filter.project.toLowerCase())) {
+    return false;
+  }
+  if (filter.since) {
+    const since = Date.parse(filter.since);
+    const captured = meta.capturedAt ? Date.parse(meta.capturedAt) : NaN;
+    if (Number.isNaN(since) || Number.isNaN(captured) || captured < since) return false;
+  }
+  return true;
+}
+
+/**
+ * One-line summary of the metadata for tool output.
+ */
+export function describeMeta(meta: KBEntryMeta): string {
+  return [
+    `category ${meta.category}`,
+    meta.labels && meta.labels.length > 1 && `labels ${meta.labels.join(", ")}`,
+    meta.tags.length > 0 && `tags ${meta.tags.join(", ")}`,
+    meta.project && `project ${meta.project}`,
+    meta.branch && `branch ${meta.branch}`,
+    meta.capturedAt && `captured ${meta.capturedAt}`,
+    meta.outcome === "failed" && "failed run",
+    meta.legacy && "legacy entry",
+  ]
+    .filter((d): d is string => Boolean(d))
+    .join("; ");
+}
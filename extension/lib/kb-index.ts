@@ -0,0 +1,391 @@
+import { featureUnavailable } from "./cli-version.js";
+import { hashContent, parseEnvelope } from "./kb-envelope.js";
+import { readJsonFile, statePath, writeJsonFile } from "./state-file.js";
+import { editDistance, stem, tokenize } from "./text-analysis.js";
+import { parseKBDocument, parseKBDocuments, runJson, type KBDocument } from "./tribe-runner.js";
+
+// ---------------------------------------------------------------------------
+// Local mirror of the TRIBE knowledge base with a TF-IDF inverted index.
+// TRIBE's KB search is LIKE-based and needs a CLI round trip; this answers
+// instantly, handles word forms via stemming and typos via fuzzy matching,
+// and keeps working when the CLI is slow or offline.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface IndexedDoc extends KBDocument {
+  /** Stemmed term -> frequency */
+  terms: Map<string, number>;
+  length: number;
+}
+
+interface IndexFile {
+  version: 1;
+  refreshedAt: number;
+  docs: KBDocument[];
+}
+
+export interface KBIndexHit {
+  id: string;
+  category?: string;
+  text: string;
+  score: number;
+  /** Query terms that only matched through fuzzy matching. */
+  fuzzy: string[];
+}
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+const INDEX_FILE = "kb-index.json";
+const MAX_DOC_FETCHES = 200; // `kb get` calls per refresh
+const FETCH_CONCURRENCY = 4;
+const FUZZY_WEIGHT = 0.5;
+const STALE_AFTER_MS = 10 * 60_000;
+
+let indexFile: string | null = null;
+let loading: Promise<void> | null = null;
+let refreshing: Promise<KBIndexRefreshResult> | null = null;
+let refreshedAt = 0;
+/** Last refresh start, so a CLI that keeps failing isn't asked on every search. */
+let attemptedAt = 0;
+
+const docs = new Map<string, IndexedDoc>();
+/** Stemmed term -> ids of documents containing it */
+const postings = new Map<string, Set<string>>();
+
+function analyze(text: string): Map<string, number> {
+  const terms = new Map<string, number>();
+  for (const token of tokenize(text)) {
+    const term = stem(token);
+    terms.set(term, (terms.get(term) ?? 0) + 1);
+  }
+  return terms;
+}
+
+function addDoc(doc: KBDocument): void {
+  removeDoc(doc.id);
+  // Index the body and tags, not the envelope's JSON keys
+  const { meta, body } = parseEnvelope(doc.content);
+  const terms = analyze(`${doc.category ?? ""} ${meta?.tags.join(" ") ?? ""} ${body}`);
+  let length = 0;
+  for (const [term, tf] of terms) {
+    length += tf;
+    let ids = postings.get(term);
+    if (!ids) postings.set(term, (ids = new Set()));
+    ids.add(doc.id);
+  }
+  docs.set(doc.id, { ...doc, terms, length });
+}
+
+function removeDoc(id: string): boolean {
+  const existing = docs.get(id);
+  if (!existing) return false;
+  for (const term of existing.terms.keys()) {
+    const ids = postings.get(term);
+    ids?.delete(id);
+    if (ids?.size === 0) postings.delete(term);
+  }
+  docs.delete(id);
+  return true;
+}
+
+function ensureLoaded(): Promise<void> {
+  if (!indexFile) return Promise.resolve();
+  if (!loading) {
+    loading = readJsonFile<IndexFile | null>(indexFile, null).then((stored) => {
+      if (!stored || stored.version !== 1) return;
+      refreshedAt = stored.refreshedAt;
+      for (const doc of stored.docs) {
+        if (!docs.has(doc.id)) addDoc(doc);
+      }
+    });
+  }
+  return loading;
+}
+
+async function persist(): Promise<void> {
+  if (!indexFile) return;
+  const stored: IndexFile = {
+    version: 1,
+    refreshedAt,
+    docs: Array.from(docs.values()).map(({ id, category, content, updatedAt }) => ({
+      id,
+      category,
+      content,
+      updatedAt,
+    })),
+  };
+  await writeJsonFile(indexFile, stored).catch(() => {
+    // The in-memory index still works; we just start cold next time
+  });
+}
+
+// ---------------------------------------------------------------------------
+// CLI mirroring
+// ---------------------------------------------------------------------------
+
+async function fetchDoc(id: string): Promise<KBDocument | null> {
+  try {
+    return await runJson(["-beta", "kb", "get", id], {
+      timeout: "fast",
+      priority: "background",
+      parse: parseKBDocument,
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a `kb list` entry was cut short. Muse entries carry a hash of
+ * their body to check against; anything else is judged by a trailing
+ * ellipsis.
+ */
+function looksTruncated(content: string): boolean {
+  const { meta, body } = parseEnvelope(content);
+  if (meta?.contentHash) return hashContent(body) !== meta.contentHash;
+  return /(\.\.\.|\u2026)\s*$/.test(content);
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+export interface KBIndexRefreshResult {
+  added: number;
+  updated: number;
+  removed: number;
+  total: number;
+}
+
+async function doRefresh(): Promise<KBIndexRefreshResult> {
+  await ensureLoaded();
+  const unavailable = await featureUnavailable("kb");
+  if (unavailable) throw new Error(unavailable);
+
+  const listed = await runJson(["-beta", "kb", "list"], {
+    timeout: "default",
+    priority: "background",
+    parse: parseKBDocuments,
+  });
+
+  const result: KBIndexRefreshResult = { added: 0, updated: 0, removed: 0, total: 0 };
+
+  const listedIds = new Set(listed.map((d) => d.id));
+  for (const id of Array.from(docs.keys())) {
+    if (!listedIds.has(id) && removeDoc(id)) result.removed++;
+  }
+
+  // `kb list` may omit or truncate content; only fetch what's new, changed
+  // or mirrored from a truncated listing
+  const needsFetch: KBDocument[] = [];
+  for (const doc of listed) {
+    const existing = docs.get(doc.id);
+    const changed =
+      !existing ||
+      (doc.updatedAt && doc.updatedAt !== existing.updatedAt) ||
+      looksTruncated(existing.content);
+    if (!changed) continue;
+    if (doc.content && !looksTruncated(doc.content)) {
+      addDoc(doc);
+      existing ? result.updated++ : result.added++;
+    } else {
+      needsFetch.push(doc);
+    }
+  }
+
+  const fetched = await mapWithConcurrency(
+    needsFetch.slice(0, MAX_DOC_FETCHES),
+    FETCH_CONCURRENCY,
+    (doc) => fetchDoc(doc.id),
+  );
+  fetched.forEach((full, i) => {
+    if (!full?.content) return;
+    const listedDoc = needsFetch[i];
+    const existed = docs.has(listedDoc.id);
+    addDoc({ ...listedDoc, ...full, updatedAt: listedDoc.updatedAt || full.updatedAt });
+    existed ? result.updated++ : result.added++;
+  });
+
+  refreshedAt = Date.now();
+  result.total = docs.size;
+  await persist();
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Point the index at the plugin stateDir and load the persisted mirror.
+ */
+export function configureKBIndex(stateDir: string): void {
+  const file = statePath(stateDir, INDEX_FILE);
+  if (file === indexFile) return;
+  indexFile = file;
+  loading = null;
+  void ensureLoaded();
+}
+
+/**
+ * Re-mirror the KB from the CLI. Concurrent calls share one refresh.
+ */
+export function refreshKBIndex(): Promise<KBIndexRefreshResult> {
+  if (!refreshing) {
+    attemptedAt = Date.now();
+    refreshing = doRefresh().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+}
+
+/**
+ * Refresh in the background once the mirror is older than STALE_AFTER_MS,
+ * so edits made outside this plugin show up without a sync.
+ */
+function refreshIfStale(): void {
+  if (refreshedAt === 0) return;
+  if (Date.now() - Math.max(refreshedAt, attemptedAt) < STALE_AFTER_MS) return;
+  refreshKBIndex().catch(() => {});
+}
+
+/**
+ * Drop a deleted document from the index without a full refresh.
+ */
+export async function removeFromKBIndex(id: string): Promise<void> {
+  await ensureLoaded();
+  if (removeDoc(id)) await persist();
+}
+
+export interface KBIndexDocument {
+  id: string;
+  category?: string;
+  content: string;
+}
+
+/**
+ * Fetch the full text of a document from the CLI and update its mirror.
+ * Mirrored content can lag the KB, so read through this before rewriting
+ * a document.
+ */
+export async function fetchKBDocument(id: string): Promise<KBIndexDocument | null> {
+  await ensureLoaded();
+  const full = await fetchDoc(id);
+  if (!full?.content) return null;
+  addDoc({ ...full, updatedAt: full.updatedAt || docs.get(id)?.updatedAt });
+  return { id: full.id, category: full.category, content: full.content };
+}
+
+/**
+ * Load the mirror, refreshing it first if it has never been populated, or
+ * in the background if it is stale. Context injection doesn't wait for
+ * this; the KB tools do.
+ */
+export async function ensureKBIndex(): Promise<void> {
+  await ensureLoaded();
+  if (refreshedAt === 0) await refreshKBIndex().catch(() => {});
+  else refreshIfStale();
+}
+
+/**
+ * Every mirrored document. Used for metadata filtering, which the CLI
+ * can't do.
+ */
+export async function listKBIndex(): Promise<KBIndexDocument[]> {
+  await ensureKBIndex();
+  return Array.from(docs.values()).map(({ id, category, content }) => ({ id, category, content }));
+}
+
+/**
+ * Find the mirrored document whose Muse envelope carries `contentHash`.
+ */
+export async function findKBDocumentByHash(contentHash: string): Promise<KBIndexDocument | null> {
+  await ensureKBIndex();
+  for (const doc of docs.values()) {
+    if (parseEnvelope(doc.content).meta?.contentHash === contentHash) {
+      return { id: doc.id, category: doc.category, content: doc.content };
+    }
+  }
+  return null;
+}
+
+export function kbIndexStats(): { documents: number; terms: number; refreshedAt: number } {
+  return { documents: docs.size, terms: postings.size, refreshedAt };
+}
+
+/**
+ * Expand a query term to the index terms it should match: itself if
+ * indexed, otherwise vocabulary terms within a small edit distance.
+ */
+function expandTerm(term: string): Array<{ term: string; weight: number }> {
+  if (postings.has(term)) return [{ term, weight: 1 }];
+  if (term.length < 4) return [];
+
+  const maxDistance = term.length >= 8 ? 2 : 1;
+  const matches: Array<{ term: string; weight: number }> = [];
+  for (const candidate of postings.keys()) {
+    if (editDistance(term, candidate, maxDistance) <= maxDistance) {
+      matches.push({ term: candidate, weight: FUZZY_WEIGHT });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Rank indexed documents against the query with TF-IDF (log-scaled term
+ * frequency, length-normalized). Returns `null` when the index is empty so
+ * callers know to fall back to the CLI.
+ */
+export async function searchKBIndex(query: string, limit: number): Promise<KBIndexHit[] | null> {
+  await ensureLoaded();
+  refreshIfStale();
+  if (docs.size === 0) return null;
+
+  // Stemmed term -> the word as typed, for reporting fuzzy matches
+  const queryTerms = new Map<string, string>();
+  for (const token of tokenize(query)) queryTerms.set(stem(token), token);
+  const scores = new Map<string, { score: number; fuzzy: Set<string> }>();
+
+  for (const [queryTerm, word] of queryTerms) {
+    for (const { term, weight } of expandTerm(queryTerm)) {
+      const ids = postings.get(term);
+      if (!ids) continue;
+      const idf = Math.log(1 + docs.size / ids.size);
+      for (const id of ids) {
+        const doc = docs.get(id)!;
+        const tf = doc.terms.get(term) ?? 0;
+        const entry = scores.get(id) ?? { score: 0, fuzzy: new Set<string>() };
+        entry.score += (weight * (1 + Math.log(tf)) * idf) / Math.sqrt(doc.length || 1);
+        if (weight < 1) entry.fuzzy.add(word);
+        scores.set(id, entry);
+      }
+    }
+  }
+
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1].score - a[1].score)
+    .slice(0, limit)
+    .map(([id, { score, fuzzy }]) => {
+      const doc = docs.get(id)!;
+      return { id, category: doc.category, text: doc.content, score, fuzzy: Array.from(fuzzy) };
+    });
+}
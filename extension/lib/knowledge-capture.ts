@@ -1,4 +1,38 @@
-import { ensureInstalled, run } from "./tribe-runner.js";
+import { categorize, type Categorization } from "./categorizer.js";
+import { evaluateCapturePolicy } from "./capture-policy.js";
+import {
+  checkDuplicate,
+  recordCapture,
+  fingerprint,
+  type CaptureDedupeMode,
+  type NearDuplicate,
+} from "./capture-dedupe.js";
+import {
+  dueOutboxEntries,
+  enqueueOutbox,
+  recordOutboxFailure,
+  removeFromOutbox,
+} from "./capture-outbox.js";
+import {
+  enqueueCapture,
+  getPendingCapture,
+  removePendingCapture,
+  type CaptureMeta,
+} from "./capture-review.js";
+import { featureUnavailable } from "./cli-version.js";
+import { formatEnvelope, hashContent, parseEnvelope } from "./kb-envelope.js";
+import {
+  fetchKBDocument,
+  findKBDocumentByHash,
+  refreshKBIndex,
+  removeFromKBIndex,
+} from "./kb-index.js";
+import { describeRedactions, redact } from "./redaction.js";
+import { summarizeConversation, summarizeFailure, type Turn } from "./summarizer.js";
+import { extractTags, MAX_TAGS } from "./tags.js";
+import { extractActivity, formatActivity, type TranscriptActivity } from "./transcript-activity.js";
+import { checkAuthStatus, ensureInstalled, run, type RunResult } from "./tribe-runner.js";
+import { resolveWorkspace } from "./workspace.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -9,20 +43,35 @@ interface Message {
   content: string | Array<{ type: string; text?: string }>;
 }
 
-type Category =
-  | "debugging"
-  | "architecture"
-  | "pattern"
-  | "solution"
-  | "decision"
-  | "general";
+export interface CaptureContext {
+  /** Moltbot session key of the conversation being captured. */
+  sessionKey?: string;
+  /** Directory the agent worked in; its repository becomes the entry's project. */
+  workspaceDir?: string;
+  /** What to do with near-duplicates of recent captures (default: merge). */
+  dedupe?: CaptureDedupeMode;
+  /** Hold the capture in the review queue instead of saving it. */
+  review?: boolean;
+  /** Set for unsuccessful runs, which are captured as postmortems. */
+  failure?: { error?: string };
+}
+
+interface CaptureDraft {
+  meta: CaptureMeta;
+  body: string;
+  fingerprint: number[];
+  /** Recent capture this one continues. */
+  related?: NearDuplicate;
+}
+
+type Logger = { info(msg: string): void; warn(msg: string): void };
 
 // ---------------------------------------------------------------------------
 // Text extraction
 // ---------------------------------------------------------------------------
 
-function extractTexts(messages: unknown[]): string[] {
-  const texts: string[] = [];
+function extractTurns(messages: unknown[]): Turn[] {
+  const turns: Turn[] = [];
 
   for (const msg of messages) {
     if (!msg || typeof msg !== "object") continue;
@@ -34,11 +83,12 @@ function extractTexts(messages: unknown[]): string[] {
     const content = m.content;
 
     if (typeof content === "string") {
-      texts.push(content);
+      turns.push({ role, text: content });
       continue;
     }
 
     if (Array.isArray(content)) {
+      const texts: string[] = [];
       for (const block of content) {
         if (
           block &&
@@ -51,10 +101,12 @@ function extractTexts(messages: unknown[]): string[] {
           texts.push((block as Record<string, unknown>).text as string);
         }
       }
+      // Tool-only messages carry no text; their blocks are read separately
+      if (texts.length > 0) turns.push({ role, text: texts.join("\n") });
     }
   }
 
-  return texts;
+  return turns;
 }
 
 // ---------------------------------------------------------------------------
@@ -71,71 +123,174 @@ function isSubstantive(text: string): boolean {
   return !TRIVIAL_PATTERNS.some((p) => p.test(trimmed));
 }
 
-const CATEGORY_SIGNALS: Array<{ pattern: RegExp; category: Category }> = [
-  { pattern: /\b(debug|error|fix|bug|issue|stack\s*trace|exception|crash)\b/i, category: "debugging" },
-  { pattern: /\b(architect|design|structure|refactor|pattern|abstraction|module)\b/i, category: "architecture" },
-  { pattern: /\b(pattern|convention|best\s*practice|idiom|approach)\b/i, category: "pattern" },
-  { pattern: /\b(solution|solve|resolved|fixed|workaround|answer)\b/i, category: "solution" },
-  { pattern: /\b(decided|decision|chose|choice|went\s*with|opted)\b/i, category: "decision" },
-];
-
-function detectCategory(text: string): Category {
-  for (const { pattern, category } of CATEGORY_SIGNALS) {
-    if (pattern.test(text)) return category;
-  }
-  return "general";
+/**
+ * Build a Problem / Approach / Outcome summary from the substantive turns.
+ */
+function buildSummary(turns: Turn[]): string | null {
+  const useful = turns.filter((t) => isSubstantive(t.text));
+  if (useful.length === 0) return null;
+  return summarizeConversation(useful);
 }
 
+/** Category of entries captured from failed runs. */
+export const POSTMORTEM_CATEGORY = "postmortem";
+
 /**
- * Build a summary suitable for KB storage from the conversation texts.
- * Takes the most substantive assistant messages and condenses them.
+ * Build a Goal / Tried / Final error postmortem of a failed run. The run's
+ * own error wins; otherwise the last tool error that was never resolved.
  */
-function buildSummary(texts: string[]): string | null {
-  // Keep only substantive texts
-  const useful = texts.filter(isSubstantive);
+function buildPostmortem(turns: Turn[], activity: TranscriptActivity, error?: string): string | null {
+  const useful = turns.filter((t) => isSubstantive(t.text));
   if (useful.length === 0) return null;
+  const unresolved = activity.errors.filter((e) => !e.resolution).pop();
+  const finalError = error ?? (unresolved && `${unresolved.signature} (from \`${unresolved.source}\`)`);
+  return summarizeFailure(useful, finalError);
+}
 
-  // Take up to the last 3 substantive messages (most recent = most relevant)
-  const selected = useful.slice(-3);
+// ---------------------------------------------------------------------------
+// KB writes
+// ---------------------------------------------------------------------------
 
-  // Truncate each to a reasonable length
-  const condensed = selected.map((t) => {
-    const trimmed = t.trim();
-    if (trimmed.length <= 500) return trimmed;
-    return trimmed.slice(0, 500) + "...";
-  });
+const SAVE_TIMEOUT_MS = 10_000;
+const MAX_MERGED_CHARS = 4000;
+
+function percent(fraction: number): string {
+  return `${Math.round(fraction * 100)}%`;
+}
+
+/** e.g. `debugging (62%; also solution)` */
+function describeCategorization(c: Categorization): string {
+  const others = c.labels.filter((l) => l.name !== c.primary).map((l) => l.name);
+  const confidence = c.confidence > 0 ? `${percent(c.confidence)}` : "low confidence";
+  return `${c.primary} (${confidence}${others.length > 0 ? `; also ${others.join(", ")}` : ""})`;
+}
+
+/**
+ * Save to TRIBE KB with a hard timeout, so a hung CLI never keeps the
+ * capture alive.
+ */
+function saveToKB(content: string): Promise<RunResult> {
+  return Promise.race([
+    run(["-beta", "kb", "save", content], { timeout: "default", priority: "background" }),
+    new Promise<RunResult>((resolve) =>
+      setTimeout(() => resolve({ exitCode: 1, stdout: "", stderr: "timeout" }), SAVE_TIMEOUT_MS),
+    ),
+  ]);
+}
+
+/**
+ * Whether a save we stopped waiting for went through anyway. The CLI can
+ * still finish after the timeout, so look for the entry by its hash.
+ */
+async function savedDespiteTimeout(result: RunResult, contentHash: string): Promise<boolean> {
+  if (result.stderr !== "timeout") return false;
+  await refreshKBIndex().catch(() => {});
+  return (await findKBDocumentByHash(contentHash)) !== null;
+}
+
+function describeSaveFailure(result: RunResult): string {
+  if (result.stderr === "timeout") return `timed out after ${SAVE_TIMEOUT_MS / 1000}s`;
+  const detail = (result.stderr || result.stdout).trim().split("\n")[0];
+  return `exit ${result.exitCode}${detail ? `: ${detail.slice(0, 200)}` : ""}`;
+}
+
+/**
+ * Append a related capture to the document it continues, by saving the
+ * combined entry and deleting the original. Returns the merged body, or
+ * `null` when the original can't be found or the result would be too long
+ * — the caller then saves the capture as a new entry.
+ */
+async function mergeIntoExisting(
+  verdict: NearDuplicate,
+  meta: CaptureMeta,
+  body: string,
+): Promise<{ body: string; docId: string } | null> {
+  const mirrored = await findKBDocumentByHash(verdict.match.contentHash);
+  if (!mirrored) return null;
+  // The mirror may hold a truncated listing; rewrite from the full document
+  const existing = await fetchKBDocument(mirrored.id);
+  if (!existing) return null;
+
+  const previous = parseEnvelope(existing.content);
+  const date = meta.capturedAt.slice(0, 10);
+  const merged = `${previous.body.trim()}\n\n---\n\nUpdate ${date}:\n${body}`;
+  if (merged.length > MAX_MERGED_CHARS) return null;
+
+  const tags = Array.from(new Set([...(previous.meta?.tags ?? []), ...meta.tags])).slice(0, MAX_TAGS);
+  const result = await saveToKB(formatEnvelope({ ...meta, tags }, merged));
+  if (result.exitCode !== 0 && !(await savedDespiteTimeout(result, hashContent(merged)))) {
+    throw new Error(`KB save returned exit ${result.exitCode} while merging into kb:${existing.id}`);
+  }
 
-  return condensed.join("\n\n---\n\n");
+  const deleted = await run(["-beta", "kb", "delete", existing.id], {
+    timeout: "fast",
+    priority: "background",
+  });
+  if (deleted.exitCode === 0) await removeFromKBIndex(existing.id);
+  return { body: merged, docId: existing.id };
 }
 
 /**
- * Extract tags from conversation content for KB indexing.
+ * Save a capture, merging it into the entry it continues when there is one,
+ * and remember it for duplicate detection. When the KB can't take it, the
+ * capture goes to the outbox and `queued` says why.
  */
-function extractTags(texts: string[]): string[] {
-  const tags = new Set<string>();
-
-  const TAG_PATTERNS: Array<{ pattern: RegExp; tag: string }> = [
-    { pattern: /\btypescript\b/i, tag: "typescript" },
-    { pattern: /\bjavascript\b/i, tag: "javascript" },
-    { pattern: /\bpython\b/i, tag: "python" },
-    { pattern: /\breact\b/i, tag: "react" },
-    { pattern: /\bnode\.?js\b/i, tag: "nodejs" },
-    { pattern: /\bdocker\w*/i, tag: "docker" },
-    { pattern: /\bkubernetes\b|\bk8s\b/i, tag: "kubernetes" },
-    { pattern: /\bgit\b/i, tag: "git" },
-    { pattern: /\bapi\b/i, tag: "api" },
-    { pattern: /\bdatabase\b|\bsql\b|\bpostgres\w*/i, tag: "database" },
-    { pattern: /\bauth\b|\boauth\b|\bjwt\b/i, tag: "auth" },
-    { pattern: /\btest\b|\btesting\b|\bspec\b/i, tag: "testing" },
-    { pattern: /\bcss\b|\bstyl\b|\btailwind\b/i, tag: "css" },
-  ];
-
-  const combined = texts.join(" ");
-  for (const { pattern, tag } of TAG_PATTERNS) {
-    if (pattern.test(combined)) tags.add(tag);
+async function storeCapture(draft: CaptureDraft): Promise<{ mergedInto?: string; queued?: string }> {
+  const { meta, fingerprint: print } = draft;
+  const installed = await ensureInstalled();
+  // A CLI without `kb` can't take the capture until it is upgraded
+  const canSave = installed && !(await featureUnavailable("kb"));
+
+  if (canSave && draft.related) {
+    // A failed merge falls through to saving the capture on its own
+    const merged = await mergeIntoExisting(draft.related, meta, draft.body).catch(() => null);
+    if (merged) {
+      await recordCapture(
+        {
+          fingerprint: print,
+          contentHash: hashContent(merged.body),
+          category: meta.category,
+          capturedAt: meta.capturedAt,
+        },
+        draft.related.match,
+      );
+      refreshKBIndex().catch(() => {});
+      return { mergedInto: merged.docId };
+    }
+  }
+
+  const content = formatEnvelope(meta, draft.body);
+  const contentHash = hashContent(draft.body);
+  const result = canSave ? await saveToKB(content) : null;
+  if (!result || result.exitCode !== 0) {
+    const reason = result
+      ? describeSaveFailure(result)
+      : installed
+        ? "TRIBE CLI has no `tribe -beta kb` command"
+        : "TRIBE CLI not installed";
+    await enqueueOutbox(
+      {
+        key: contentHash,
+        content,
+        fingerprint: print,
+        category: meta.category,
+        capturedAt: meta.capturedAt,
+        sessionKey: meta.sessionKey,
+      },
+      reason,
+    );
+    return { queued: reason };
   }
 
-  return Array.from(tags).slice(0, 5);
+  await recordCapture({
+    fingerprint: print,
+    contentHash,
+    category: meta.category,
+    capturedAt: meta.capturedAt,
+  });
+  // Mirror the new entry so a later capture can find it to merge into
+  refreshKBIndex().catch(() => {});
+  return {};
 }
 
 // ---------------------------------------------------------------------------
@@ -143,47 +298,198 @@ function extractTags(texts: string[]): string[] {
 // ---------------------------------------------------------------------------
 
 // Exported for unit testing only — not part of the public API.
-export const _testing = { extractTexts, isSubstantive, detectCategory, extractTags, buildSummary };
+export const _testing = { extractTurns, isSubstantive, buildSummary, buildPostmortem };
 
 /**
  * Analyze a completed agent conversation and capture insights to TRIBE KB.
- * Runs fire-and-forget — errors are logged but never thrown.
+ * Near-duplicates of recent captures are skipped or merged into the entry
+ * they repeat. Failed runs are captured as postmortems, which never merge
+ * into other entries. In review mode the capture is queued for approval
+ * instead of saved. Runs fire-and-forget — errors are logged but never thrown.
  */
 export async function captureConversation(
   messages: unknown[],
-  logger: { info(msg: string): void; warn(msg: string): void },
+  logger: Logger,
+  capture: CaptureContext = {},
 ): Promise<void> {
   try {
-    const installed = await ensureInstalled();
-    if (!installed) return;
+    const turns = extractTurns(messages);
+    if (turns.length === 0) return;
+    const texts = turns.map((t) => t.text);
+
+    // Files, commands and errors make the entry findable by error message
+    const activity = extractActivity(messages);
+    const failed = capture.failure !== undefined;
+    const summary = failed
+      ? buildPostmortem(turns, activity, capture.failure?.error)
+      : buildSummary(turns);
+    if (!summary) return;
 
-    const texts = extractTexts(messages);
-    if (texts.length === 0) return;
+    const categorization = categorize(turns);
+    const category = failed ? POSTMORTEM_CATEGORY : categorization.primary;
+    const labels = categorization.labels.map((l) => l.name);
+    const description = failed
+      ? `${POSTMORTEM_CATEGORY} (failed run)`
+      : describeCategorization(categorization);
+
+    const workspace = capture.workspaceDir ? await resolveWorkspace(capture.workspaceDir) : null;
+    const substantive = turns.filter((t) => isSubstantive(t.text));
+    const policy = evaluateCapturePolicy({
+      project: workspace?.root,
+      substantiveMessages: substantive.length,
+      totalLength: substantive.reduce((sum, t) => sum + t.text.length, 0),
+      category,
+      labels,
+    });
+    if (!policy.capture) {
+      logger.info(`muse: skipped ${category} capture — capture policy: ${policy.reason}`);
+      return;
+    }
 
-    const summary = buildSummary(texts);
-    if (!summary) return;
+    const activityText = formatActivity(activity);
+    const redaction = redact(activityText ? `${summary}\n\n${activityText}` : summary);
+
+    const print = fingerprint(redaction.text);
+    const verdict = await checkDuplicate(print, capture.dedupe ?? "merge");
+    if (verdict.action === "skip") {
+      logger.info(
+        `muse: skipped ${category} capture — near-duplicate of a ${verdict.match.category} ` +
+        `insight captured ${verdict.match.capturedAt} (${percent(verdict.similarity)} similar)`,
+      );
+      return;
+    }
 
-    const category = detectCategory(texts.join(" "));
-    const tags = extractTags(texts);
-
-    // Build the KB content with metadata markers
-    const tagLine = tags.length > 0 ? `\nTags: ${tags.join(", ")}` : "";
-    const content = `[Muse ${category}]${tagLine}\n\n${summary}`;
-
-    // Save to TRIBE KB — fire and forget with a timeout
-    const result = await Promise.race([
-      run(["-beta", "kb", "save", content], { timeout: "default" }),
-      new Promise<{ exitCode: number; stdout: string; stderr: string }>((resolve) =>
-        setTimeout(() => resolve({ exitCode: 1, stdout: "", stderr: "timeout" }), 10_000),
-      ),
-    ]);
-
-    if (result.exitCode === 0) {
-      logger.info(`muse: captured ${category} insight to KB (${tags.join(", ") || "no tags"})`);
-    } else {
-      logger.warn(`muse: KB save returned exit ${result.exitCode}`);
+    const tags = await extractTags({
+      texts,
+      files: activity.files,
+      commands: activity.commands,
+      workspaceRoot: workspace?.root,
+    });
+    const meta: CaptureMeta = {
+      category,
+      labels: failed ? [POSTMORTEM_CATEGORY, ...labels] : labels,
+      confidence: failed ? 1 : categorization.confidence,
+      tags,
+      project: workspace?.root,
+      branch: workspace?.branch,
+      sessionKey: capture.sessionKey,
+      capturedAt: new Date().toISOString(),
+      outcome: failed ? "failed" : undefined,
+    };
+    const draft: CaptureDraft = {
+      meta,
+      body: redaction.text,
+      fingerprint: print,
+      // Postmortems and entries about what worked are never merged together
+      related:
+        verdict.action === "merge" && !failed && verdict.match.category !== POSTMORTEM_CATEGORY
+          ? verdict
+          : undefined,
+    };
+
+    if (capture.review) {
+      const { item, replaced } = await enqueueCapture(draft);
+      logger.info(
+        `muse: queued ${description} capture ${item.id} for review` +
+        `${replaced ? ` (replaces ${replaced.id})` : ""}; ${describeRedactions(redaction)}`,
+      );
+      return;
+    }
+
+    const stored = await storeCapture(draft);
+    if (stored.queued) {
+      logger.warn(
+        `muse: KB save failed (${stored.queued}); ${category} capture queued in the outbox ` +
+        `for retry (${describeRedactions(redaction)})`,
+      );
+      return;
+    }
+    if (stored.mergedInto) {
+      logger.info(
+        `muse: merged ${category} capture into kb:${stored.mergedInto} ` +
+        `(${percent(draft.related?.similarity ?? 0)} similar; ${describeRedactions(redaction)})`,
+      );
+      return;
     }
+    if (draft.related) {
+      logger.info(
+        `muse: related capture found (${percent(draft.related.similarity)} similar) but could not be merged; saved as new`,
+      );
+    }
+    logger.info(
+      `muse: captured ${description} insight to KB ` +
+      `(${tags.join(", ") || "no tags"}; ` +
+      `${describeRedactions(redaction)})`,
+    );
   } catch (err) {
     logger.warn(`muse: knowledge capture failed: ${String(err)}`);
   }
 }
+
+let replaying: Promise<{ saved: number; retrying: number; dead: number }> | null = null;
+
+/**
+ * Replay outbox entries that are due. Skips the round (without using up
+ * attempts) while the CLI is missing, logged out or lacks `kb`. Entries
+ * whose content hash is already in the KB — a timed-out save that landed
+ * after all — are dropped instead of saved twice.
+ */
+export function replayOutbox(): Promise<{ saved: number; retrying: number; dead: number }> {
+  if (replaying) return replaying;
+  replaying = (async () => {
+    const counts = { saved: 0, retrying: 0, dead: 0 };
+    const due = await dueOutboxEntries();
+    if (due.length === 0 || (await checkAuthStatus()) !== "authenticated") return counts;
+    if (await featureUnavailable("kb")) return counts;
+
+    await refreshKBIndex().catch(() => {});
+    for (const entry of due) {
+      const existing = await findKBDocumentByHash(entry.key);
+      const result = existing ? null : await saveToKB(entry.content);
+      if (!result || result.exitCode === 0) {
+        await removeFromOutbox(entry.key);
+        await recordCapture({
+          fingerprint: entry.fingerprint,
+          contentHash: entry.key,
+          category: entry.category,
+          capturedAt: entry.capturedAt,
+        });
+        counts.saved++;
+        continue;
+      }
+      const updated = await recordOutboxFailure(entry.key, describeSaveFailure(result));
+      if (updated?.deadAt) counts.dead++;
+      else counts.retrying++;
+    }
+
+    if (counts.saved > 0) refreshKBIndex().catch(() => {});
+    return counts;
+  })().finally(() => {
+    replaying = null;
+  });
+  return replaying;
+}
+
+/**
+ * Save a capture held for review, with any edits the reviewer made. Edited
+ * summaries are redacted again before saving. Returns `null` when the
+ * capture is no longer pending. If the KB can't take it, the approved
+ * capture moves to the outbox.
+ */
+export async function approvePendingCapture(
+  id: string,
+): Promise<{ mergedInto?: string; queued?: string } | null> {
+  const item = await getPendingCapture(id);
+  if (!item) return null;
+
+  // The stored fingerprint is of the summary as captured, before any edit
+  const body = item.editedAt ? redact(item.body).text : item.body;
+  const stored = await storeCapture({
+    meta: item.meta,
+    body,
+    fingerprint: item.editedAt ? fingerprint(body) : item.fingerprint,
+    related: item.related,
+  });
+  await removePendingCapture(id);
+  return stored;
+}
@@ -0,0 +1,69 @@
+import type { ContextDepth } from "./context-builder.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PromptKind = "follow-up" | "new-task" | "debugging" | "architecture";
+
+export interface DepthDecision {
+  kind: PromptKind;
+  depth: ContextDepth;
+  /** KB search runs at standard depth and above. */
+  searchKB: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Heuristics — cheap regex checks over the prompt text, evaluated in order
+// of how much context the kind of prompt benefits from.
+// ---------------------------------------------------------------------------
+
+const DEBUGGING_SIGNALS = [
+  /\b(error|exception|stack\s*trace|traceback|panic|segfault|crash(es|ed|ing)?)\b/i,
+  /\b(fail(s|ed|ing)?|broken|bug|regression|flaky|hangs?|timeout|timed out)\b/i,
+  /\b(doesn'?t|does not|isn'?t|won'?t|can'?t|cannot) (work|run|build|compile|start|load)/i,
+  /\b[A-Z][a-zA-Z]+Error\b|\bE[A-Z]{3,}\b/, // TypeError, ENOENT
+  /^\s+at \S+ \(?.+:\d+:\d+\)?$/m, // JS stack frame
+];
+
+const ARCHITECTURE_SIGNALS = [
+  /\b(architect\w*|design|restructur\w*|refactor\w*|abstraction|module boundar\w*)\b/i,
+  /\b(trade-?offs?|approach(es)?|strategy|pattern|scal(e|ability|ing))\b/i,
+  /\b(should (we|i)|how should|what'?s the best way|pros and cons|compare|versus|vs\.?)\b/i,
+];
+
+const FOLLOW_UP_OPENERS =
+  /^(yes|yeah|yep|no|nope|ok(ay)?|sure|thanks|thank you|great|perfect|nice|cool|also|and|now|then|next|continue|go ahead|do it|looks good|lgtm|what about|how about|same)\b/i;
+
+const FOLLOW_UP_MAX_WORDS = 12;
+
+function countMatches(prompt: string, signals: RegExp[]): number {
+  return signals.filter((s) => s.test(prompt)).length;
+}
+
+/**
+ * Classify a prompt and pick the context depth for this turn.
+ */
+export function classifyPrompt(prompt: string): DepthDecision {
+  const text = prompt.trim();
+  const words = text.split(/\s+/).filter(Boolean).length;
+
+  const debugging = countMatches(text, DEBUGGING_SIGNALS);
+  const architecture = countMatches(text, ARCHITECTURE_SIGNALS);
+
+  let kind: PromptKind;
+  if (debugging > 0 && debugging >= architecture) {
+    kind = "debugging";
+  } else if (architecture > 0) {
+    kind = "architecture";
+  } else if (words <= FOLLOW_UP_MAX_WORDS && (FOLLOW_UP_OPENERS.test(text) || words <= 3)) {
+    kind = "follow-up";
+  } else {
+    kind = "new-task";
+  }
+
+  const depth: ContextDepth =
+    kind === "follow-up" ? "minimal" : kind === "new-task" ? "standard" : "deep";
+
+  return { kind, depth, searchKB: depth !== "minimal" };
+}
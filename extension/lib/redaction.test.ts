@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { afterEach, test } from "node:test";
+import { configureRedaction, describeRedactions, redact } from "./redaction.js";
+
+afterEach(() => {
+  configureRedaction({});
+});
+
+test("secret-named assignments are redacted in .env files, config and code", () => {
+  const cases: Array<[string, string]> = [
+    ["API_KEY=abc123secret", "API_KEY=[REDACTED:secret-assignment]"],
+    ["export DB_PASSWORD='hunter22'", "export DB_PASSWORD='[REDACTED:secret-assignment]'"],
+    ["api_key = 'abcdef123456'", "api_key = '[REDACTED:secret-assignment]'"],
+    ["password: hunter2", "password: [REDACTED:secret-assignment]"],
+    ['const password = "hunter2";', 'const password = "[REDACTED:secret-assignment]";'],
+    ["  apiKey: 'k-123'", "  apiKey: '[REDACTED:secret-assignment]'"],
+    ['{"client_secret": "s3cr3t"}', '{"client_secret": "[REDACTED:secret-assignment]"}'],
+    ['dbPassword := "x9"', 'dbPassword := "[REDACTED:secret-assignment]"'],
+  ];
+  for (const [input, expected] of cases) assert.equal(redact(input).text, expected, input);
+});
+
+test("ordinary names and prose are left alone", () => {
+  const untouched = [
+    "KEYBOARD_LAYOUT=us",
+    "AUTHOR=bob",
+    "PWD=/home/me",
+    "SORT_KEYS=true",
+    "TOKENIZER=bert",
+    "key: use an index",
+    "The password: rotate it monthly",
+    "  password: string;",
+    "passwordHint: remember the dog",
+  ];
+  for (const line of untouched) assert.equal(redact(line).text, line);
+});
+
+test("specific token formats win over the generic assignment rule", () => {
+  const token = `ghp_${"a".repeat(36)}`;
+  const result = redact(`GITHUB_TOKEN=${token}`);
+  assert.equal(result.text, "GITHUB_TOKEN=[REDACTED:github-token]");
+  assert.deepEqual(result.byRule, { "github-token": 1 });
+});
+
+test("connection string passwords and emails are redacted, allowlisted values kept", () => {
+  const result = redact("postgres://app:s3cret@db:5432/x by ops@acme.io and me@example.com");
+  assert.equal(
+    result.text,
+    "postgres://app:[REDACTED:connection-string]@db:5432/x by [REDACTED:email] and me@example.com",
+  );
+  assert.equal(describeRedactions(result), "redacted 2 (1 connection-string, 1 email)");
+});
+
+test("custom patterns and allowlist apply, and invalid patterns are reported", () => {
+  const invalid = configureRedaction({ patterns: ["ACME-[0-9]{6}", "("], allowlist: ["^ops@acme\\.io$"] });
+  assert.deepEqual(invalid, ["("]);
+  assert.equal(redact("ticket ACME-123456 from ops@acme.io").text, "ticket [REDACTED:custom] from ops@acme.io");
+  assert.equal(describeRedactions(redact("nothing here")), "no redactions");
+});
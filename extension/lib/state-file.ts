@@ -0,0 +1,32 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+// ---------------------------------------------------------------------------
+// JSON state files under the plugin stateDir. Writes go through a temp file
+// and a rename so a crash mid-write never leaves a truncated file behind.
+// ---------------------------------------------------------------------------
+
+/** Subdirectory of the Moltbot stateDir that holds Muse's files. */
+const STATE_SUBDIR = "muse";
+
+export function statePath(stateDir: string, fileName: string): string {
+  return join(stateDir, STATE_SUBDIR, fileName);
+}
+
+/**
+ * Read a JSON state file, returning `fallback` when it is missing or corrupt.
+ */
+export async function readJsonFile<T>(path: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export async function writeJsonFile(path: string, value: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(value), "utf8");
+  await rename(tmp, path);
+}
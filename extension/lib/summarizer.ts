@@ -0,0 +1,205 @@
+import { tokenize } from "./text-analysis.js";
+
+// ---------------------------------------------------------------------------
+// Problem / Approach / Outcome summaries for captured conversations. The
+// user's opening messages state the problem, the middle of the conversation
+// holds the decisions, and the final assistant turns hold the resolution.
+// Sentences in each part are scored for how much they say, and the best are
+// kept (in their original order) within a per-part size budget. Failed runs
+// get a Goal / Tried / Final error postmortem instead.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface Turn {
+  role: "user" | "assistant";
+  text: string;
+}
+
+interface Sentence {
+  text: string;
+  /** Position in the conversation, for restoring order after selection. */
+  order: number;
+  score: number;
+}
+
+// ---------------------------------------------------------------------------
+// Sentence splitting
+// ---------------------------------------------------------------------------
+
+const CODE_FENCE_RE = /```[\s\S]*?(?:```|$)/g;
+const MIN_SENTENCE_LENGTH = 12;
+const MAX_SENTENCE_LENGTH = 300;
+
+function splitSentences(text: string): string[] {
+  return text
+    // Code blocks are tails, not summaries; the tool activity covers files
+    .replace(CODE_FENCE_RE, "\n")
+    .split(/\n+|(?<=[.!?])\s+(?=[A-Z`"'(])/)
+    .map((s) =>
+      s
+        .replace(/^\s*(?:[-*+]|\d+[.)]|#{1,6})\s+/, "") // list markers, headings
+        .replace(/\*\*|__/g, "")
+        .replace(/\s+/g, " ")
+        .trim(),
+    )
+    .filter((s) => s.length >= MIN_SENTENCE_LENGTH);
+}
+
+/** Truncate long sentences and terminate unpunctuated ones so they join cleanly. */
+function clip(sentence: string): string {
+  if (sentence.length > MAX_SENTENCE_LENGTH) return sentence.slice(0, MAX_SENTENCE_LENGTH) + "...";
+  return /[.!?:]$/.test(sentence) ? sentence : `${sentence}.`;
+}
+
+// ---------------------------------------------------------------------------
+// Scoring — distinct content words carry most of the weight; signal phrases
+// tip the balance towards sentences that state a problem, decision or result.
+// ---------------------------------------------------------------------------
+
+const PLEASANTRIES = [
+  /\b(let me know|happy to help|hope (this|that) helps|anything else|feel free|glad (it|that|to)|you're welcome|no problem)\b/i,
+  /^(great|perfect|sure|thanks|thank you|awesome|nice|sounds good|got it|of course|certainly|absolutely)\b[!,.]?/i,
+  /^(let me|i'll|i will|now i'll|first,? (let me|i'll))\b/i, // narration of the next step
+];
+
+const PROBLEM_SIGNALS =
+  /\b(error|fail(s|ed|ing)?|broken|bug|crash\w*|doesn'?t|does not|can'?t|cannot|won'?t|unable|wrong|slow|timeout|how (do|can|should)|why|need|want)\b|\?/i;
+const APPROACH_SIGNALS =
+  /\b(because|root cause|the (issue|problem|cause) (is|was)|turns out|instead|decided|decision|chose|switch(ed)?|opted|went with|trade-?off|so that|the fix|approach|rather than)\b/i;
+const OUTCOME_SIGNALS =
+  /\b(fixed|resolved|works?( now)?|working|pass(es|ed|ing)?|succeed\w*|done|now (returns|handles|uses)|added|updated|implemented|removed|replaced|changed|the result)\b/i;
+const ATTEMPT_SIGNALS =
+  /\b(tried|trying|attempt\w*|changed|added|switched|replaced|updated|reverted|increased|disabled|instead|next|another|still)\b/i;
+const FAILURE_SIGNALS =
+  /\b(error|fail(s|ed|ing|ure)?|still|doesn'?t|does not|didn'?t|can'?t|cannot|unable|gave up|couldn'?t|no luck|same (error|problem|issue))\b/i;
+const SPECIFIC_RE = /`[^`]+`|\b[\w-]+\.(ts|js|py|go|rs|java|rb|json|ya?ml|toml|sql|md)\b|\b[A-Z][a-z]+[A-Z]\w*\b|\b[A-Z][A-Za-z]*(Error|Exception)\b/g;
+
+function scoreSentence(text: string, signals: RegExp): number {
+  if (PLEASANTRIES.some((p) => p.test(text))) return -Infinity;
+
+  const words = new Set(tokenize(text)).size;
+  const specifics = (text.match(SPECIFIC_RE) ?? []).length;
+  let score = Math.min(words, 15) + 2 * Math.min(specifics, 3);
+  if (signals.test(text)) score += 6;
+  if (text.length > MAX_SENTENCE_LENGTH) score -= 3;
+  return score;
+}
+
+function score(turns: Turn[], signals: RegExp): Sentence[] {
+  let order = 0;
+  const sentences: Sentence[] = [];
+  for (const turn of turns) {
+    for (const text of splitSentences(turn.text)) {
+      sentences.push({ text, order: order++, score: scoreSentence(text, signals) });
+    }
+  }
+  return sentences;
+}
+
+/**
+ * Keep the best-scoring sentences that fit the budget, in conversation order.
+ */
+function select(sentences: Sentence[], budget: number): string[] {
+  const ranked = sentences
+    .filter((s) => s.score > 0)
+    .sort((a, b) => b.score - a.score || a.order - b.order);
+
+  const chosen: Sentence[] = [];
+  let used = 0;
+  for (const sentence of ranked) {
+    const length = Math.min(sentence.text.length, MAX_SENTENCE_LENGTH) + 1;
+    if (used + length > budget) continue;
+    chosen.push(sentence);
+    used += length;
+  }
+  return chosen.sort((a, b) => a.order - b.order).map((s) => clip(s.text));
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+const PROBLEM_BUDGET = 350;
+const TRIED_BUDGET = 500;
+const FINAL_ERROR_BUDGET = 250;
+const APPROACH_BUDGET = 450;
+const OUTCOME_BUDGET = 400;
+/** User turns before the first assistant reply that count as the problem. */
+const MAX_PROBLEM_TURNS = 2;
+
+/**
+ * Summarize a conversation as Problem / Approach / Outcome. Returns `null`
+ * when no part has anything worth keeping.
+ */
+export function summarizeConversation(turns: Turn[]): string | null {
+  if (turns.length === 0) return null;
+
+  // Problem: the user's opening message(s)
+  const firstReply = turns.findIndex((t) => t.role === "assistant");
+  const opening = (firstReply < 0 ? turns : turns.slice(0, firstReply))
+    .filter((t) => t.role === "user")
+    .slice(0, MAX_PROBLEM_TURNS);
+
+  // Outcome: the last assistant turn that says more than pleasantries
+  let outcome: string[] = [];
+  let lastReply = turns.length;
+  for (let i = turns.length - 1; i > firstReply && firstReply >= 0; i--) {
+    if (turns[i].role !== "assistant") continue;
+    outcome = select(score([turns[i]], OUTCOME_SIGNALS), OUTCOME_BUDGET);
+    if (outcome.length > 0) {
+      lastReply = i;
+      break;
+    }
+  }
+  if (outcome.length === 0 && firstReply >= 0) {
+    outcome = select(score([turns[firstReply]], OUTCOME_SIGNALS), OUTCOME_BUDGET);
+    lastReply = firstReply;
+  }
+
+  // Approach: everything in between
+  const middle = firstReply >= 0 ? turns.slice(firstReply, lastReply) : [];
+  const problem = select(score(opening, PROBLEM_SIGNALS), PROBLEM_BUDGET);
+  const approach = select(score(middle, APPROACH_SIGNALS), APPROACH_BUDGET);
+
+  const parts = [
+    problem.length > 0 && `Problem: ${problem.join(" ")}`,
+    approach.length > 0 && `Approach: ${approach.join(" ")}`,
+    outcome.length > 0 && `Outcome: ${outcome.join(" ")}`,
+  ].filter((p): p is string => Boolean(p));
+
+  return parts.length > 0 ? parts.join("\n") : null;
+}
+
+/**
+ * Summarize a failed run as Goal / Tried / Final error — what the user
+ * wanted, the approaches that didn't work, and where it ended. `finalError`
+ * (e.g. the run's error, or the last unresolved tool error) wins over
+ * anything taken from the transcript. Returns `null` when there is no goal.
+ */
+export function summarizeFailure(turns: Turn[], finalError?: string): string | null {
+  const firstReply = turns.findIndex((t) => t.role === "assistant");
+  const opening = (firstReply < 0 ? turns : turns.slice(0, firstReply))
+    .filter((t) => t.role === "user")
+    .slice(0, MAX_PROBLEM_TURNS);
+  const goal = select(score(opening, PROBLEM_SIGNALS), PROBLEM_BUDGET);
+  if (goal.length === 0) return null;
+
+  const replies = firstReply >= 0 ? turns.slice(firstReply).filter((t) => t.role === "assistant") : [];
+  const tried = select(score(replies, ATTEMPT_SIGNALS), TRIED_BUDGET);
+
+  let error = finalError ? [clip(finalError.replace(/\s+/g, " ").trim())] : [];
+  if (error.length === 0 && replies.length > 0) {
+    error = select(score(replies.slice(-1), FAILURE_SIGNALS), FINAL_ERROR_BUDGET);
+  }
+
+  return [
+    `Goal: ${goal.join(" ")}`,
+    tried.length > 0 && `Tried: ${tried.join(" ")}`,
+    error.length > 0 && `Final error: ${error.join(" ")}`,
+  ]
+    .filter((p): p is string => Boolean(p))
+    .join("\n");
+}
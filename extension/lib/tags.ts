@@ -0,0 +1,317 @@
+import { readFile } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+
+// ---------------------------------------------------------------------------
+// Technology tags for captured KB entries, ranked by evidence. Four sources
+// contribute, strongest first:
+//   - extensions of the files the agent edited
+//   - workspace dependencies the conversation actually mentions
+//   - dictionary terms mentioned in the conversation (built-in + config)
+//   - the workspace's manifests themselves (a go.mod means Go)
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TagEvidence {
+  /** Conversation text (user and assistant turns). */
+  texts: string[];
+  /** Files written or edited during the conversation. */
+  files: string[];
+  /** Shell commands run during the conversation. */
+  commands: string[];
+  /** Workspace repository root, for reading dependency manifests. */
+  workspaceRoot?: string;
+}
+
+/** Tag -> terms (regular expression sources, matched as whole words). */
+export type TagDictionary = Record<string, string[]>;
+
+// ---------------------------------------------------------------------------
+// Evidence weights
+// ---------------------------------------------------------------------------
+
+const EDITED_FILE_WEIGHT = 3; // per distinct file, capped
+const MAX_FILE_EVIDENCE = 3;
+const MENTIONED_DEPENDENCY_WEIGHT = 3;
+const UNMENTIONED_DEPENDENCY_WEIGHT = 0.5;
+const MANIFEST_WEIGHT = 1;
+const MENTION_WEIGHT = 2; // times log(1 + mentions)
+const COMMAND_WEIGHT = 2;
+
+const MIN_TAG_SCORE = 1.5;
+export const MAX_TAGS = 6;
+
+// ---------------------------------------------------------------------------
+// File extensions
+// ---------------------------------------------------------------------------
+
+const EXTENSION_TAGS: Record<string, string[]> = {
+  ".ts": ["typescript"], ".tsx": ["typescript", "react"], ".mts": ["typescript"],
+  ".js": ["javascript"], ".jsx": ["javascript", "react"], ".mjs": ["javascript"], ".cjs": ["javascript"],
+  ".py": ["python"], ".go": ["go"], ".rs": ["rust"], ".tf": ["terraform"], ".tfvars": ["terraform"],
+  ".java": ["java"], ".kt": ["kotlin"], ".rb": ["ruby"], ".php": ["php"], ".swift": ["swift"],
+  ".cs": ["csharp"], ".cpp": ["cpp"], ".cc": ["cpp"], ".hpp": ["cpp"], ".c": ["c"],
+  ".sql": ["database"], ".prisma": ["prisma"], ".graphql": ["graphql"], ".gql": ["graphql"],
+  ".proto": ["protobuf"], ".css": ["css"], ".scss": ["css"], ".vue": ["vue"], ".svelte": ["svelte"],
+  ".sh": ["shell"], ".bash": ["shell"],
+};
+
+const FILENAME_TAGS: Record<string, string[]> = {
+  "Dockerfile": ["docker"], "docker-compose.yml": ["docker"], "docker-compose.yaml": ["docker"],
+  "Makefile": ["make"], "go.mod": ["go"], "Cargo.toml": ["rust"], "pyproject.toml": ["python"],
+  "package.json": ["nodejs"], "tsconfig.json": ["typescript"],
+};
+
+function tagsForFile(path: string): string[] {
+  const name = basename(path);
+  if (FILENAME_TAGS[name]) return FILENAME_TAGS[name];
+  if (/(^|\/)\.github\/workflows\//.test(path)) return ["ci"];
+  if (/(^|\/)(k8s|kubernetes|helm)\//.test(path)) return ["kubernetes"];
+  return EXTENSION_TAGS[extname(name).toLowerCase()] ?? [];
+}
+
+// ---------------------------------------------------------------------------
+// Dependency manifests
+// ---------------------------------------------------------------------------
+
+// Dependency name (or `prefix/` for scoped packages and module paths) -> tag
+const DEPENDENCY_TAGS: Record<string, string> = {
+  "react": "react", "next": "nextjs", "vue": "vue", "svelte": "svelte", "@angular/": "angular",
+  "express": "express", "fastify": "fastify", "@nestjs/": "nestjs", "hono": "hono",
+  "prisma": "prisma", "@prisma/": "prisma", "drizzle-orm": "drizzle", "typeorm": "typeorm",
+  "mongoose": "mongodb", "mongodb": "mongodb", "pg": "postgres", "redis": "redis", "ioredis": "redis",
+  "jest": "jest", "vitest": "vitest", "@playwright/": "playwright", "cypress": "cypress",
+  "tailwindcss": "tailwind", "graphql": "graphql", "@aws-sdk/": "aws", "zod": "zod",
+  "django": "django", "flask": "flask", "fastapi": "fastapi", "sqlalchemy": "sqlalchemy",
+  "pytest": "pytest", "pandas": "pandas", "numpy": "numpy", "torch": "pytorch", "pydantic": "pydantic",
+  "github.com/gin-gonic/": "gin", "gorm.io/": "gorm", "github.com/spf13/cobra": "cobra",
+  "google.golang.org/grpc": "grpc", "k8s.io/": "kubernetes",
+  "tokio": "tokio", "axum": "axum", "actix-web": "actix", "serde": "serde", "sqlx": "sqlx",
+  "diesel": "diesel", "clap": "clap",
+};
+
+interface Manifest {
+  language: string;
+  dependencies: string[];
+}
+
+async function readText(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, "utf8");
+  } catch {
+    return null;
+  }
+}
+
+function parsePackageJson(text: string): string[] {
+  try {
+    const pkg = JSON.parse(text) as Record<string, Record<string, string> | undefined>;
+    return [
+      ...Object.keys(pkg.dependencies ?? {}),
+      ...Object.keys(pkg.devDependencies ?? {}),
+      ...Object.keys(pkg.peerDependencies ?? {}),
+    ];
+  } catch {
+    return [];
+  }
+}
+
+function parseGoMod(text: string): string[] {
+  // `require x v1` and the lines of `require ( ... )` blocks
+  const deps: string[] = [];
+  for (const match of text.matchAll(/^\s*(?:require\s+)?([\w.-]+\.[\w.-]+\/\S+)\s+v[\d.]/gm)) {
+    deps.push(match[1]);
+  }
+  return deps;
+}
+
+/** Keys of the dependency tables; good enough without a TOML parser. */
+function parseCargoToml(text: string): string[] {
+  const deps: string[] = [];
+  let inDeps = false;
+  for (const line of text.split("\n")) {
+    const section = line.match(/^\s*\[([^\]]+)\]/);
+    if (section) {
+      inDeps = /(^|\.)(dev-|build-)?dependencies$/.test(section[1]);
+      continue;
+    }
+    const key = inDeps && line.match(/^\s*([A-Za-z0-9_-]+)\s*=/);
+    if (key) deps.push(key[1]);
+  }
+  return deps;
+}
+
+/** PEP 621 `dependencies = [...]` and Poetry dependency tables. */
+function parsePyproject(text: string): string[] {
+  const deps: string[] = [];
+  const list = text.match(/^\s*dependencies\s*=\s*\[([\s\S]*?)\]/m);
+  for (const match of list?.[1].matchAll(/["']([A-Za-z0-9_.-]+)/g) ?? []) {
+    deps.push(match[1].toLowerCase());
+  }
+  deps.push(...parseCargoToml(text).map((d) => d.toLowerCase()).filter((d) => d !== "python"));
+  return deps;
+}
+
+async function readManifests(root: string): Promise<Manifest[]> {
+  const sources: Array<[file: string, language: string, parse: (text: string) => string[]]> = [
+    ["package.json", "nodejs", parsePackageJson],
+    ["go.mod", "go", parseGoMod],
+    ["Cargo.toml", "rust", parseCargoToml],
+    ["pyproject.toml", "python", parsePyproject],
+  ];
+
+  const manifests = await Promise.all(
+    sources.map(async ([file, language, parse]) => {
+      const text = await readText(join(root, file));
+      return text === null ? null : { language, dependencies: parse(text) };
+    }),
+  );
+  return manifests.filter((m): m is Manifest => m !== null);
+}
+
+function dependencyTag(dep: string): string | null {
+  if (DEPENDENCY_TAGS[dep]) return DEPENDENCY_TAGS[dep];
+  for (const [key, tag] of Object.entries(DEPENDENCY_TAGS)) {
+    if (key.endsWith("/") && dep.startsWith(key)) return tag;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Dictionary — conversation mentions. "git" and "api" need context so that
+// every conversation touching a repository or an endpoint isn't tagged.
+// ---------------------------------------------------------------------------
+
+const BUILTIN_DICTIONARY: TagDictionary = {
+  typescript: ["typescript", "tsc", "tsconfig"],
+  javascript: ["javascript"],
+  python: ["python", "pip", "virtualenv", "venv"],
+  go: ["golang", "go (mod|build|test|run)", "goroutines?"],
+  rust: ["rust", "cargo", "rustc", "borrow checker"],
+  terraform: ["terraform", "tfstate", "hcl"],
+  react: ["react", "jsx", "useEffect", "useState"],
+  nodejs: ["node\\.?js", "npm", "pnpm", "yarn"],
+  docker: ["docker\\w*", "containers?", "dockerfile"],
+  kubernetes: ["kubernetes", "k8s", "kubectl", "helm"],
+  git: ["git (rebase|merge|commit|push|pull|branch|bisect|stash|cherry-pick|reset|checkout)", "merge conflicts?"],
+  api: ["rest api", "api endpoints?", "openapi", "swagger"],
+  graphql: ["graphql"],
+  database: ["database", "sql", "postgres\\w*", "mysql", "sqlite", "migrations?"],
+  auth: ["auth", "oauth", "jwt", "authenticat\\w*", "authoriz\\w*"],
+  testing: ["tests?", "testing", "spec", "unit tests?", "e2e"],
+  css: ["css", "tailwind", "styles?heets?"],
+  aws: ["aws", "s3", "lambda", "cloudformation"],
+  ci: ["ci", "github actions", "pipelines?"],
+};
+
+let dictionary = compileDictionary(BUILTIN_DICTIONARY);
+
+function compileDictionary(source: TagDictionary): Map<string, RegExp[]> {
+  const compiled = new Map<string, RegExp[]>();
+  for (const [tag, terms] of Object.entries(source)) {
+    compiled.set(tag, terms.map((t) => new RegExp(`\\b(?:${t})\\b`, "gi")));
+  }
+  return compiled;
+}
+
+const TAG_NAME_RE = /^[a-z0-9][a-z0-9.+#-]*$/;
+
+/**
+ * Extend the built-in tag dictionary from plugin config. Returns the
+ * entries that were rejected (bad tag names or invalid patterns).
+ */
+export function configureTagDictionary(extra: TagDictionary | undefined): string[] {
+  const merged: TagDictionary = { ...BUILTIN_DICTIONARY };
+  const rejected: string[] = [];
+
+  for (const [rawTag, terms] of Object.entries(extra ?? {})) {
+    const tag = rawTag.toLowerCase();
+    if (!TAG_NAME_RE.test(tag) || !Array.isArray(terms)) {
+      rejected.push(rawTag);
+      continue;
+    }
+    const valid = terms.filter((term) => {
+      try {
+        new RegExp(term);
+        return true;
+      } catch {
+        rejected.push(`${rawTag}: ${term}`);
+        return false;
+      }
+    });
+    merged[tag] = [...(merged[tag] ?? []), ...valid];
+  }
+
+  dictionary = compileDictionary(merged);
+  return rejected;
+}
+
+function mentions(text: string, word: string): boolean {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\w-])${escaped}($|[^\\w-])`, "i").test(text);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Rank technology tags by the evidence for them across edited files,
+ * commands, conversation text and the workspace's dependency manifests.
+ */
+export async function extractTags(evidence: TagEvidence): Promise<string[]> {
+  const scores = new Map<string, number>();
+  const add = (tag: string, weight: number) => scores.set(tag, (scores.get(tag) ?? 0) + weight);
+
+  // Edited files
+  const fileCounts = new Map<string, number>();
+  for (const file of new Set(evidence.files)) {
+    for (const tag of tagsForFile(file)) fileCounts.set(tag, (fileCounts.get(tag) ?? 0) + 1);
+  }
+  for (const [tag, count] of fileCounts) {
+    add(tag, EDITED_FILE_WEIGHT * Math.min(count, MAX_FILE_EVIDENCE));
+  }
+
+  // Conversation mentions
+  const combined = evidence.texts.join("\n");
+  for (const [tag, terms] of dictionary) {
+    const mentions = terms.reduce((sum, term) => sum + (combined.match(term)?.length ?? 0), 0);
+    if (mentions > 0) add(tag, MENTION_WEIGHT * Math.log1p(mentions));
+  }
+
+  // Commands — `git ...`, `docker ...`, `terraform ...`
+  const commandTags: Record<string, string> = {
+    git: "git", docker: "docker", kubectl: "kubernetes", helm: "kubernetes", terraform: "terraform",
+    cargo: "rust", go: "go", pytest: "python", npm: "nodejs", pnpm: "nodejs", yarn: "nodejs",
+  };
+  const commandHits = new Set<string>();
+  for (const command of evidence.commands) {
+    const tag = commandTags[command.split(/\s+/)[0]];
+    if (tag) commandHits.add(tag);
+  }
+  for (const tag of commandHits) add(tag, COMMAND_WEIGHT);
+
+  // Workspace manifests and the dependencies the conversation mentions
+  if (evidence.workspaceRoot) {
+    for (const manifest of await readManifests(evidence.workspaceRoot)) {
+      add(manifest.language, MANIFEST_WEIGHT);
+      const seen = new Set<string>();
+      for (const dep of manifest.dependencies) {
+        const tag = dependencyTag(dep);
+        if (!tag || seen.has(tag)) continue;
+        seen.add(tag);
+        const shortName = dep.replace(/\/$/, "").split("/").pop() ?? dep;
+        const mentioned = mentions(combined, shortName) || mentions(combined, tag);
+        add(tag, mentioned ? MENTIONED_DEPENDENCY_WEIGHT : UNMENTIONED_DEPENDENCY_WEIGHT);
+      }
+    }
+  }
+
+  return Array.from(scores.entries())
+    .filter(([, score]) => score >= MIN_TAG_SCORE)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_TAGS)
+    .map(([tag]) => tag);
+}
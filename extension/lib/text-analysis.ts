@@ -0,0 +1,96 @@
+// ---------------------------------------------------------------------------
+// Text analysis shared by KB search, ranking and the local KB index
+// ---------------------------------------------------------------------------
+
+// Stop-words to skip when extracting search terms.
+const STOP_WORDS = new Set([
+  "a", "an", "the", "is", "are", "was", "were", "be", "been", "being",
+  "have", "has", "had", "do", "does", "did", "will", "would", "could",
+  "should", "may", "might", "shall", "can", "need", "must",
+  "i", "you", "he", "she", "it", "we", "they", "me", "him", "her", "us", "them",
+  "my", "your", "his", "its", "our", "their",
+  "this", "that", "these", "those", "what", "which", "who", "whom",
+  "and", "but", "or", "nor", "not", "no", "so", "if", "then", "else",
+  "for", "of", "in", "on", "at", "to", "by", "with", "from", "up", "out",
+  "about", "into", "through", "during", "before", "after", "above", "below",
+  "how", "when", "where", "why", "all", "each", "every", "both",
+  "few", "more", "most", "other", "some", "such", "only", "same",
+  "than", "too", "very", "just", "because", "as", "until", "while",
+  "use", "using", "implement", "add", "create", "make", "get", "set",
+]);
+
+/**
+ * Split text into lowercase search terms, dropping stop-words and very
+ * short tokens. Used both for picking CLI search terms and for ranking.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .split(/\s+/)
+    .filter((w) => w.length >= 3 && !STOP_WORDS.has(w));
+}
+
+// Longest suffixes first so "ations" wins over "s"
+const SUFFIXES: Array<[suffix: string, replacement: string]> = [
+  ["ational", "ate"], ["ization", "ize"], ["fulness", "ful"], ["iveness", "ive"],
+  ["ations", "ate"], ["ation", "ate"], ["ments", ""], ["ment", ""],
+  ["ities", ""], ["ity", ""], ["ness", ""], ["ings", ""], ["ing", ""],
+  ["ies", "y"], ["ied", "y"], ["ers", ""], ["er", ""], ["ed", ""],
+  ["ly", ""], ["es", ""], ["s", ""],
+];
+
+const MIN_STEM_LENGTH = 3;
+
+function stripSuffix(word: string): string {
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (!word.endsWith(suffix)) continue;
+    // "ss" endings aren't plurals: "class", "process"
+    if (suffix === "s" && word.endsWith("ss")) return word;
+
+    let base = word.slice(0, -suffix.length);
+    if (base.length < MIN_STEM_LENGTH) continue;
+
+    // "running" -> "runn" -> "run"
+    if (!replacement && /([b-df-hj-np-tv-z])\1$/.test(base) && !/(ll|ss|zz)$/.test(base)) {
+      base = base.slice(0, -1);
+    }
+    return base + replacement;
+  }
+  return word;
+}
+
+/**
+ * Light suffix-stripping stemmer — not Porter, but enough that "migrations",
+ * "migrating" and "migrated" land on the same index term.
+ */
+export function stem(word: string): string {
+  if (word.length <= 4 || /\d/.test(word)) return word;
+
+  // A final "e" is dropped so "migrate" and "migrat(ing)" agree
+  const stemmed = stripSuffix(word);
+  return stemmed.length > MIN_STEM_LENGTH + 1 && stemmed.endsWith("e")
+    ? stemmed.slice(0, -1)
+    : stemmed;
+}
+
+/**
+ * Levenshtein distance with an early exit once `max` is exceeded.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, curr[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = curr;
+  }
+  return prev[b.length];
+}
@@ -0,0 +1,314 @@
+// ---------------------------------------------------------------------------
+// Tool activity in agent transcripts — the files an agent edited, the
+// commands it ran and the errors it hit along the way. Text blocks say what
+// the agent meant to do; tool blocks say what it actually did.
+//
+// Three transcript shapes are understood:
+//   - Anthropic content blocks: `tool_use` / `tool_result`
+//   - pi-agent blocks: `toolCall` blocks and `role: "toolResult"` messages
+//   - OpenAI messages: `tool_calls` on assistant messages, `role: "tool"`
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface ToolCall {
+  id?: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+interface ToolResult {
+  callId?: string;
+  text: string;
+  isError?: boolean;
+}
+
+type Step = { kind: "call"; call: ToolCall } | { kind: "result"; result: ToolResult };
+
+export interface ErrorTrace {
+  /** First distinctive error line, e.g. `TypeError: x is not a function`. */
+  signature: string;
+  /** Command or tool that produced it. */
+  source: string;
+  /** How it was resolved, or `undefined` if it never was. */
+  resolution?: string;
+}
+
+export interface TranscriptActivity {
+  /** Files written, edited or patched (reads are left out). */
+  files: string[];
+  commands: string[];
+  errors: ErrorTrace[];
+}
+
+// ---------------------------------------------------------------------------
+// Transcript parsing
+// ---------------------------------------------------------------------------
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function parseArguments(raw: unknown): Record<string, unknown> {
+  if (typeof raw === "string") {
+    try {
+      return asRecord(JSON.parse(raw)) ?? {};
+    } catch {
+      return {};
+    }
+  }
+  return asRecord(raw) ?? {};
+}
+
+function resultText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((block) => {
+      const b = asRecord(block);
+      return b && typeof b.text === "string" ? b.text : "";
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+function collectSteps(messages: unknown[]): Step[] {
+  const steps: Step[] = [];
+
+  for (const msg of messages) {
+    const m = asRecord(msg);
+    if (!m) continue;
+
+    // pi-agent / OpenAI tool result messages
+    if (m.role === "toolResult" || m.role === "tool") {
+      steps.push({
+        kind: "result",
+        result: {
+          callId: String(m.toolCallId ?? m.tool_call_id ?? ""),
+          text: resultText(m.content),
+          isError: typeof m.isError === "boolean" ? m.isError : undefined,
+        },
+      });
+      continue;
+    }
+
+    // OpenAI assistant tool calls
+    if (Array.isArray(m.tool_calls)) {
+      for (const tc of m.tool_calls) {
+        const call = asRecord(tc);
+        const fn = asRecord(call?.function);
+        if (!fn?.name) continue;
+        steps.push({
+          kind: "call",
+          call: { id: String(call?.id ?? ""), name: String(fn.name), input: parseArguments(fn.arguments) },
+        });
+      }
+    }
+
+    if (!Array.isArray(m.content)) continue;
+    for (const block of m.content) {
+      const b = asRecord(block);
+      if (!b) continue;
+      if (b.type === "tool_use" || b.type === "toolCall") {
+        steps.push({
+          kind: "call",
+          call: {
+            id: String(b.id ?? ""),
+            name: String(b.name ?? "tool"),
+            input: parseArguments(b.input ?? b.arguments),
+          },
+        });
+      } else if (b.type === "tool_result") {
+        steps.push({
+          kind: "result",
+          result: {
+            callId: String(b.tool_use_id ?? ""),
+            text: resultText(b.content),
+            isError: typeof b.is_error === "boolean" ? b.is_error : undefined,
+          },
+        });
+      }
+    }
+  }
+
+  return steps;
+}
+
+// ---------------------------------------------------------------------------
+// Tool call classification
+// ---------------------------------------------------------------------------
+
+const READ_ONLY_WORDS = new Set([
+  "read", "view", "cat", "grep", "search", "find", "list", "glob", "ls", "fetch", "get",
+]);
+const PATCH_FILE_RE = /^\*\*\* (?:Add|Update|Delete) File: (.+)$/gm;
+
+function commandOf(call: ToolCall): string | null {
+  const raw = call.input.command ?? call.input.cmd ?? call.input.script;
+  if (typeof raw === "string" && raw.trim()) return raw.trim();
+  if (Array.isArray(raw) && raw.length > 0) return raw.map(String).join(" ");
+  return null;
+}
+
+/** `read_file`, `readFile` and `Read` are all read-only. */
+function isReadOnly(toolName: string): boolean {
+  const words = toolName.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase().split(/[^a-z]+/);
+  return words.some((w) => READ_ONLY_WORDS.has(w));
+}
+
+function filesOf(call: ToolCall): string[] {
+  if (isReadOnly(call.name)) return [];
+  const files: string[] = [];
+  for (const key of ["file_path", "filePath", "path", "file", "filename", "target_file"]) {
+    const value = call.input[key];
+    if (typeof value === "string" && value.trim()) files.push(value.trim());
+  }
+  if (Array.isArray(call.input.paths)) {
+    files.push(...call.input.paths.filter((p): p is string => typeof p === "string"));
+  }
+  // apply_patch-style inputs name their files inside the patch text
+  const patch = call.input.patch ?? call.input.input;
+  if (typeof patch === "string") {
+    for (const match of patch.matchAll(PATCH_FILE_RE)) files.push(match[1].trim());
+  }
+  return files;
+}
+
+// ---------------------------------------------------------------------------
+// Error detection
+// ---------------------------------------------------------------------------
+
+// In priority order — a `TypeError: ...` line says more than "FAIL"
+const ERROR_LINE_PATTERNS = [
+  /\b[A-Z][A-Za-z]*(?:Error|Exception)\b:?.*/,
+  /\berror(?:\[\w+\])?:.*/i,
+  /\b(?:fatal|panic):.*/,
+  /\bE[A-Z]{3,}\b.*/, // ENOENT, EADDRINUSE
+  /\b(?:FAIL(?:ED)?|failed)\b.*/,
+];
+
+const NONZERO_EXIT_RE = /\bexit(?:ed)?(?: with)?(?: status| code)?:? ?[1-9]\d*\b|Command failed/i;
+const MAX_SIGNATURE_LENGTH = 160;
+
+function errorSignature(text: string): string | null {
+  const lines = text.split("\n").map((l) => l.trim()).filter(Boolean);
+  for (const pattern of ERROR_LINE_PATTERNS) {
+    for (const line of lines) {
+      const match = line.match(pattern);
+      if (!match) continue;
+      const signature = match[0].replace(/\s+/g, " ").trim();
+      return signature.length > MAX_SIGNATURE_LENGTH
+        ? signature.slice(0, MAX_SIGNATURE_LENGTH) + "..."
+        : signature;
+    }
+  }
+  return null;
+}
+
+function isFailure(result: ToolResult, isCommand: boolean): boolean {
+  if (result.isError !== undefined) return result.isError;
+  // Without an explicit flag, only trust exit status on shell commands
+  return isCommand && NONZERO_EXIT_RE.test(result.text);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+const MAX_FILES = 15;
+const MAX_COMMANDS = 10;
+const MAX_ERRORS = 5;
+const MAX_COMMAND_LENGTH = 120;
+
+function shorten(text: string, max: number): string {
+  const oneLine = text.replace(/\s+/g, " ");
+  return oneLine.length > max ? oneLine.slice(0, max) + "..." : oneLine;
+}
+
+/**
+ * Extract edited files, commands and errors (with how each was resolved)
+ * from a transcript's tool calls and results.
+ */
+export function extractActivity(messages: unknown[]): TranscriptActivity {
+  const steps = collectSteps(messages);
+  const callsById = new Map<string, ToolCall>();
+  const files = new Set<string>();
+  const commands = new Set<string>();
+
+  // Open errors by the command (or tool) that produced them
+  const open = new Map<string, { trace: ErrorTrace; editsSince: Set<string> }>();
+  const errors: ErrorTrace[] = [];
+  let lastCall: ToolCall | null = null;
+
+  for (const step of steps) {
+    if (step.kind === "call") {
+      const { call } = step;
+      if (call.id) callsById.set(call.id, call);
+      lastCall = call;
+
+      const command = commandOf(call);
+      if (command) commands.add(shorten(command, MAX_COMMAND_LENGTH));
+      for (const file of filesOf(call)) {
+        files.add(file);
+        for (const entry of open.values()) entry.editsSince.add(file);
+      }
+      continue;
+    }
+
+    const { result } = step;
+    const call = (result.callId && callsById.get(result.callId)) || lastCall;
+    if (!call) continue;
+
+    const command = commandOf(call);
+    const source = command ? shorten(command, MAX_COMMAND_LENGTH) : call.name;
+
+    if (isFailure(result, command !== null)) {
+      const signature = errorSignature(result.text) ?? `${call.name} failed`;
+      const existing = open.get(source);
+      if (existing && existing.trace.signature === signature) continue;
+      const trace: ErrorTrace = { signature, source };
+      errors.push(trace);
+      open.set(source, { trace, editsSince: new Set() });
+      continue;
+    }
+
+    const pending = open.get(source);
+    if (pending) {
+      const edits = Array.from(pending.editsSince);
+      pending.trace.resolution = edits.length > 0
+        ? `passed after editing ${edits.slice(0, 5).join(", ")}`
+        : "passed on retry";
+      open.delete(source);
+    }
+  }
+
+  return {
+    files: Array.from(files).slice(0, MAX_FILES),
+    commands: Array.from(commands).slice(0, MAX_COMMANDS),
+    // Resolved errors are the valuable ones; keep them first
+    errors: [...errors.filter((e) => e.resolution), ...errors.filter((e) => !e.resolution)]
+      .slice(0, MAX_ERRORS),
+  };
+}
+
+/**
+ * Render activity as a plain-text block for the KB entry, or `null` when
+ * the transcript had no tool activity worth keeping.
+ */
+export function formatActivity(activity: TranscriptActivity): string | null {
+  const lines: string[] = [];
+  if (activity.files.length > 0) lines.push(`Files: ${activity.files.join(", ")}`);
+  if (activity.commands.length > 0) {
+    lines.push(`Commands: ${activity.commands.map((c) => `\`${c}\``).join(", ")}`);
+  }
+  if (activity.errors.length > 0) {
+    lines.push("Errors:");
+    for (const error of activity.errors) {
+      const outcome = error.resolution ? `resolved: ${error.resolution}` : "unresolved";
+      lines.push(`- ${error.signature} (from \`${error.source}\`) — ${outcome}`);
+    }
+  }
+  return lines.length > 0 ? lines.join("\n") : null;
+}
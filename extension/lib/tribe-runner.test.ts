@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { extractJSON } from "./tribe-runner.js";
+
+test("clean JSON parses directly", () => {
+  assert.deepEqual(extractJSON('  [{"id": 1}]\n'), [{ id: 1 }]);
+});
+
+test("tips and warnings around the JSON are skipped", () => {
+  const stdout = 'Tip: results are [beta]\n[{"id": "a", "content": "use {braces} and [brackets]"}]\nDone.';
+  assert.deepEqual(extractJSON(stdout), [{ id: "a", content: "use {braces} and [brackets]" }]);
+});
+
+test("an unclosed bracket or stray quote in a tip doesn't hide the JSON", () => {
+  assert.deepEqual(extractJSON('Warning: { not closed\n{"ok": true}'), { ok: true });
+  assert.deepEqual(extractJSON('Tip: [don\'t "quote\n{"ok": true}'), { ok: true });
+  assert.deepEqual(extractJSON('Note: mismatched (] here\n[1, 2]'), [1, 2]);
+});
+
+test("output without JSON throws", () => {
+  assert.throws(() => extractJSON("Tip: run tribe login [required]"), SyntaxError);
+});
+
+test("large unbalanced output is scanned in linear time", () => {
+  const noisy = "[{".repeat(10_000);
+  const started = Date.now();
+  assert.throws(() => extractJSON(noisy), SyntaxError);
+  assert.deepEqual(extractJSON(`${noisy}\n{"found": true}`), { found: true });
+  assert.ok(Date.now() - started < 500, `took ${Date.now() - started}ms`);
+});
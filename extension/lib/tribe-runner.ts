@@ -1,9 +1,11 @@
-import { execFile } from "node:child_process";
+import { execFile, type ChildProcess } from "node:child_process";
 import { access, constants } from "node:fs/promises";
 import { homedir } from "node:os";
-import { join } from "node:path";
+import { delimiter, join } from "node:path";
+import { Type, type Static, type TSchema } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
 
-const TRIBE_BIN = join(homedir(), ".tribe", "bin", "tribe");
+const DEFAULT_TRIBE_BIN = join(homedir(), ".tribe", "bin", "tribe");
 
 export type TimeoutCategory = "fast" | "default" | "slow" | "long";
 
@@ -20,111 +22,446 @@ export interface RunResult {
   exitCode: number;
 }
 
-export async function ensureInstalled(): Promise<boolean> {
+// ---------------------------------------------------------------------------
+// Binary resolution — the configured path (or the installer's default
+// location), then `tribe` on PATH, for setups that install the CLI through
+// a package manager, a Nix store or a container image.
+// ---------------------------------------------------------------------------
+
+let configuredBin: string | null = null;
+let resolvedBin: string | null = null;
+
+async function isExecutable(path: string): Promise<boolean> {
   try {
-    await access(TRIBE_BIN, constants.X_OK);
+    await access(path, constants.X_OK);
     return true;
   } catch {
     return false;
   }
 }
 
+function binaryCandidates(): string[] {
+  const onPath = (process.env.PATH ?? "")
+    .split(delimiter)
+    .filter(Boolean)
+    .map((dir) => join(dir, process.platform === "win32" ? "tribe.exe" : "tribe"));
+  return [configuredBin ?? DEFAULT_TRIBE_BIN, ...onPath];
+}
+
+/**
+ * Find the CLI binary. A found path is remembered while it stays
+ * executable; a missing one is looked up again on the next call, so an
+ * install during the session is picked up.
+ */
+export async function resolveTribeBinary(): Promise<string | null> {
+  if (resolvedBin && (await isExecutable(resolvedBin))) return resolvedBin;
+  resolvedBin = null;
+  for (const candidate of binaryCandidates()) {
+    if (await isExecutable(candidate)) return (resolvedBin = candidate);
+  }
+  return null;
+}
+
+export async function ensureInstalled(): Promise<boolean> {
+  return (await resolveTribeBinary()) !== null;
+}
+
+// ---------------------------------------------------------------------------
+// Auth state — a logged-in answer is cached for a few minutes, so tool calls
+// don't each wait on `tribe status`. It is dropped on logout and setup, when
+// the token expiry passes, and when a command fails with an auth error.
+// Negative answers are never cached: a `tribe login` in the user's terminal
+// takes effect on the next call.
+// ---------------------------------------------------------------------------
+
 /**
- * Check if the TRIBE CLI is authenticated. Returns:
  * - "authenticated" — logged in and ready
  * - "not-authenticated" — CLI exists but not logged in
  * - "not-installed" — CLI binary not found
  */
-export async function checkAuthStatus(): Promise<
-  "authenticated" | "not-authenticated" | "not-installed"
-> {
-  const installed = await ensureInstalled();
-  if (!installed) return "not-installed";
+export type AuthState = "authenticated" | "not-authenticated" | "not-installed";
 
-  try {
-    const result = await run(["status"], { timeout: "fast" });
-    const out = result.stdout;
-    if (
-      out.includes("Not logged in") ||
-      out.includes("Not authenticated") ||
-      out.includes("Skip-auth")
-    ) {
-      return "not-authenticated";
+export interface AuthDetail {
+  state: AuthState;
+  user?: string;
+  org?: string;
+  /** Token expiry (ISO 8601), when the CLI reports one. */
+  expiresAt?: string;
+  /** When the CLI was asked, in ms since the epoch. */
+  checkedAt: number;
+}
+
+const AUTH_TTL_MS = 5 * 60_000;
+const AUTH_ERROR =
+  /not logged in|not authenticated|unauthori[sz]ed|\b401\b|(?:token|session) (?:has )?expired|tribe login/i;
+
+let authCache: AuthDetail | null = null;
+let authChecking: Promise<AuthDetail> | null = null;
+/** Bumped on invalidation, so a check already running can't cache a stale answer. */
+let authGeneration = 0;
+
+function isFresh(detail: AuthDetail): boolean {
+  const now = Date.now();
+  if (now - detail.checkedAt >= AUTH_TTL_MS) return false;
+  return !detail.expiresAt || !(Date.parse(detail.expiresAt) <= now);
+}
+
+/** Forget the cached auth state; the next check asks the CLI. */
+export function invalidateAuth(): void {
+  authGeneration++;
+  authCache = null;
+  authChecking = null;
+}
+
+/**
+ * Ask the CLI who is logged in. `status --format json` is preferred; a CLI
+ * that doesn't support it, or answers in text anyway, has its text read.
+ */
+async function queryAuth(): Promise<AuthDetail> {
+  const json = await run(["status"], { timeout: "fast", json: true });
+  let status: AuthStatus | null = null;
+  if (json.exitCode === 0) {
+    try {
+      status = parseAuthStatus(extractJSON(json.stdout), "status");
+    } catch {
+      // Text output
     }
-    return "authenticated";
-  } catch {
-    return "not-authenticated";
   }
+  if (!status) {
+    const text = json.exitCode === 0 ? json : await run(["status"], { timeout: "fast" });
+    status = parseAuthText(text.stdout);
+  }
+  const { authenticated, ...who } = status;
+  const expired = who.expiresAt !== undefined && Date.parse(who.expiresAt) <= Date.now();
+  return {
+    state: authenticated && !expired ? "authenticated" : "not-authenticated",
+    ...who,
+    checkedAt: Date.now(),
+  };
 }
 
-export function run(
-  args: string[],
-  options: {
-    timeout?: TimeoutCategory;
-    json?: boolean;
-    signal?: AbortSignal;
-  } = {},
-): Promise<RunResult> {
-  const { timeout = "default", json = false, signal } = options;
-  const finalArgs = json ? [...args, "--format", "json"] : args;
-  const timeoutMs = TIMEOUTS[timeout];
+/** The CLI's auth state, from cache while a logged-in answer is fresh. */
+export async function getAuthDetail(options: { refresh?: boolean } = {}): Promise<AuthDetail> {
+  if (!(await ensureInstalled())) {
+    authCache = null;
+    return { state: "not-installed", checkedAt: Date.now() };
+  }
+  if (options.refresh) invalidateAuth();
+  if (authCache && isFresh(authCache)) return authCache;
 
-  return new Promise((resolve, reject) => {
-    const child = execFile(
-      TRIBE_BIN,
-      finalArgs,
+  if (!authChecking) {
+    const generation = authGeneration;
+    const checking = queryAuth()
+      .catch((): AuthDetail => ({ state: "not-authenticated", checkedAt: Date.now() }))
+      .then((detail) => {
+        if (generation === authGeneration && detail.state === "authenticated") {
+          authCache = detail;
+        }
+        return detail;
+      })
+      .finally(() => {
+        if (authChecking === checking) authChecking = null;
+      });
+    authChecking = checking;
+  }
+  return authChecking;
+}
+
+/** Shorthand for the state alone. */
+export async function checkAuthStatus(): Promise<AuthState> {
+  return (await getAuthDetail()).state;
+}
+
+// ---------------------------------------------------------------------------
+// Process pool — caps how many `tribe` processes run at once. Calls wait in
+// a priority queue, so context injection isn't stuck behind background
+// sync, and a call whose argument list is already queued or running shares
+// that process and its result instead of spawning another. One slot is kept
+// for context queries, so tool calls and background work can't fill the pool
+// while the agent waits.
+// ---------------------------------------------------------------------------
+
+/**
+ * - "context" — queries for context injection; the agent is waiting
+ * - "interactive" — tool calls (the default)
+ * - "background" — sync, KB mirroring, capture saves
+ */
+export type RunPriority = "context" | "interactive" | "background";
+
+const PRIORITIES: RunPriority[] = ["context", "interactive", "background"];
+const DEFAULT_MAX_CONCURRENT = 4;
+const CONTEXT_RESERVED_SLOTS = 1;
+
+interface Job {
+  key: string;
+  args: string[];
+  timeoutMs: number;
+  priority: RunPriority;
+  queuedAt: number;
+  /** Callers still waiting for the result. */
+  subscribers: number;
+  started: boolean;
+  child?: ChildProcess;
+  done: boolean;
+  result: Promise<RunResult>;
+  resolve: (result: RunResult) => void;
+}
+
+interface WaitStats {
+  count: number;
+  totalMs: number;
+  maxMs: number;
+}
+
+let maxConcurrent = DEFAULT_MAX_CONCURRENT;
+let running = 0;
+let spawned = 0;
+let coalesced = 0;
+const queues: Record<RunPriority, Job[]> = { context: [], interactive: [], background: [] };
+const inFlight = new Map<string, Job>();
+const waits: Record<RunPriority, WaitStats> = {
+  context: { count: 0, totalMs: 0, maxMs: 0 },
+  interactive: { count: 0, totalMs: 0, maxMs: 0 },
+  background: { count: 0, totalMs: 0, maxMs: 0 },
+};
+
+export function configureRunner(options: { maxConcurrent?: number; binary?: string }): void {
+  const max = options.maxConcurrent;
+  maxConcurrent =
+    max !== undefined && Number.isInteger(max) && max >= 1 ? max : DEFAULT_MAX_CONCURRENT;
+  const binary = options.binary?.trim().replace(/^~(?=\/|$)/, homedir()) || null;
+  if (binary !== configuredBin) {
+    configuredBin = binary;
+    resolvedBin = null;
+  }
+  pump();
+}
+
+function nextJob(): Job | undefined {
+  const context = queues.context.shift();
+  if (context) return context;
+  // A pool of one has nothing to spare
+  const reserved = maxConcurrent > CONTEXT_RESERVED_SLOTS ? CONTEXT_RESERVED_SLOTS : 0;
+  if (running >= maxConcurrent - reserved) return undefined;
+  for (const priority of PRIORITIES) {
+    const job = queues[priority].shift();
+    if (job) return job;
+  }
+  return undefined;
+}
+
+function pump(): void {
+  while (running < maxConcurrent) {
+    const job = nextJob();
+    if (!job) return;
+    start(job);
+  }
+}
+
+function finish(job: Job, result: RunResult): void {
+  // An expired or revoked login shows up here first; `status` itself
+  // reports logged-out state as output, not as a failure
+  if (
+    result.exitCode !== 0 &&
+    job.args[0] !== "status" &&
+    AUTH_ERROR.test(result.stderr || result.stdout)
+  ) {
+    invalidateAuth();
+  }
+  running--;
+  job.done = true;
+  // An abandoned job was already replaced by any newer call with its arguments
+  if (inFlight.get(job.key) === job) inFlight.delete(job.key);
+  job.resolve(result);
+  pump();
+}
+
+function start(job: Job): void {
+  running++;
+  job.started = true;
+  const waited = Date.now() - job.queuedAt;
+  const stats = waits[job.priority];
+  stats.count++;
+  stats.totalMs += waited;
+  stats.maxMs = Math.max(stats.maxMs, waited);
+
+  resolveTribeBinary().then((bin) => {
+    if (!bin) {
+      finish(job, { stdout: "", stderr: "TRIBE CLI not found", exitCode: 127 });
+      return;
+    }
+    // Every caller gave up while the binary was being looked up
+    if (job.subscribers === 0) {
+      finish(job, { stdout: "", stderr: "aborted", exitCode: 1 });
+      return;
+    }
+    spawned++;
+    job.child = execFile(
+      bin,
+      job.args,
       {
-        timeout: timeoutMs,
+        timeout: job.timeoutMs,
         maxBuffer: 10 * 1024 * 1024,
         env: { ...process.env, NO_COLOR: "1" },
       },
       (error, stdout, stderr) => {
-        if (signal?.aborted) {
-          reject(new DOMException("Aborted", "AbortError"));
-          return;
-        }
         const exitCode =
           error && "code" in error && typeof error.code === "number"
             ? error.code
             : error
               ? 1
               : 0;
-        resolve({ stdout, stderr, exitCode });
+        finish(job, { stdout, stderr, exitCode });
       },
     );
+  });
+}
+
+/** A caller gave up; the last one to go cancels the job. */
+function unsubscribe(job: Job): void {
+  job.subscribers--;
+  if (job.subscribers > 0 || job.done) return;
+  if (job.started) {
+    // New callers start fresh instead of sharing the dying process
+    inFlight.delete(job.key);
+    job.child?.kill("SIGTERM");
+    return;
+  }
+  queues[job.priority] = queues[job.priority].filter((j) => j !== job);
+  inFlight.delete(job.key);
+}
 
-    if (signal) {
-      signal.addEventListener(
-        "abort",
-        () => {
-          child.kill("SIGTERM");
-        },
-        { once: true },
-      );
+function subscribe(job: Job, signal: AbortSignal | undefined): Promise<RunResult> {
+  job.subscribers++;
+  if (!signal) return job.result;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      unsubscribe(job);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    if (signal.aborted) {
+      onAbort();
+      return;
     }
+    signal.addEventListener("abort", onAbort, { once: true });
+    job.result.then((result) => {
+      signal.removeEventListener("abort", onAbort);
+      resolve(result);
+    });
   });
 }
 
+export function run(
+  args: string[],
+  options: {
+    timeout?: TimeoutCategory;
+    json?: boolean;
+    signal?: AbortSignal;
+    priority?: RunPriority;
+  } = {},
+): Promise<RunResult> {
+  const { timeout = "default", json = false, signal, priority = "interactive" } = options;
+  const finalArgs = json ? [...args, "--format", "json"] : args;
+  const key = finalArgs.join("\0");
+
+  const existing = inFlight.get(key);
+  if (existing) {
+    coalesced++;
+    // Queued at a lower priority: the new caller's urgency carries it
+    if (!existing.started && PRIORITIES.indexOf(priority) < PRIORITIES.indexOf(existing.priority)) {
+      queues[existing.priority] = queues[existing.priority].filter((j) => j !== existing);
+      existing.priority = priority;
+      queues[priority].push(existing);
+    }
+    return subscribe(existing, signal);
+  }
+
+  let resolve!: (result: RunResult) => void;
+  const result = new Promise<RunResult>((r) => (resolve = r));
+  const job: Job = {
+    key,
+    args: finalArgs,
+    timeoutMs: TIMEOUTS[timeout],
+    priority,
+    queuedAt: Date.now(),
+    subscribers: 0,
+    started: false,
+    done: false,
+    result,
+    resolve,
+  };
+  inFlight.set(key, job);
+  queues[priority].push(job);
+  const subscribed = subscribe(job, signal);
+  pump();
+  return subscribed;
+}
+
+export interface RunnerStats {
+  maxConcurrent: number;
+  running: number;
+  queued: Record<RunPriority, number>;
+  /** How long the longest-waiting queued call has waited, in ms. */
+  oldestWaitMs: number;
+  /** Processes started since load. */
+  spawned: number;
+  /** Calls that shared an in-flight process instead of starting one. */
+  coalesced: number;
+  /** Time from call to process start, per priority, since load. */
+  waits: Record<RunPriority, { count: number; avgMs: number; maxMs: number }>;
+}
+
+export function runnerStats(): RunnerStats {
+  const queuedAt = PRIORITIES.flatMap((p) => queues[p].map((j) => j.queuedAt));
+  const queued = {} as RunnerStats["queued"];
+  const waitStats = {} as RunnerStats["waits"];
+  for (const p of PRIORITIES) {
+    const { count, totalMs, maxMs } = waits[p];
+    queued[p] = queues[p].length;
+    waitStats[p] = { count, avgMs: count > 0 ? Math.round(totalMs / count) : 0, maxMs };
+  }
+  return {
+    maxConcurrent,
+    running,
+    queued,
+    oldestWaitMs: queuedAt.length > 0 ? Date.now() - Math.min(...queuedAt) : 0,
+    spawned,
+    coalesced,
+    waits: waitStats,
+  };
+}
+
+/**
+ * Run a command with `--format json` and return the parsed output. With a
+ * `parse` function the output is validated and normalized as well; a shape
+ * that doesn't match throws a {@link CLIResponseError}.
+ */
 export async function runJson<T = unknown>(
   args: string[],
   options: {
     timeout?: TimeoutCategory;
     signal?: AbortSignal;
+    priority?: RunPriority;
+    parse?: ResponseParser<T>;
   } = {},
 ): Promise<T> {
-  const result = await run(args, { ...options, json: true });
+  const { parse, ...runOptions } = options;
+  const command = describeCommand(args);
+  const result = await run(args, { ...runOptions, json: true });
   if (result.exitCode !== 0) {
     throw new Error(
-      `tribe ${args[0]} failed (exit ${result.exitCode}): ${result.stderr || result.stdout}`,
+      `tribe ${command} failed (exit ${result.exitCode}): ${result.stderr || result.stdout}`,
     );
   }
+  let raw: unknown;
   try {
-    return JSON.parse(result.stdout) as T;
+    raw = extractJSON(result.stdout);
   } catch {
     throw new Error(
-      `tribe ${args[0]} returned non-JSON output: ${result.stdout.slice(0, 200)}`,
+      `tribe ${command} returned non-JSON output: ${result.stdout.slice(0, 200)}`,
     );
   }
+  return parse ? parse(raw, command) : (raw as T);
 }
 
 export async function runText(
@@ -132,6 +469,7 @@ export async function runText(
   options: {
     timeout?: TimeoutCategory;
     signal?: AbortSignal;
+    priority?: RunPriority;
   } = {},
 ): Promise<string> {
   const result = await run(args, { ...options, json: false });
@@ -142,3 +480,558 @@ export async function runText(
   }
   return result.stdout;
 }
+
+// ---------------------------------------------------------------------------
+// Responses — the CLI's JSON differs by source (the local cache answers with
+// other field names than the authenticated API) and by version. Each
+// response is checked against a lenient TypeBox schema of the raw shapes
+// seen in the wild, then normalized to one canonical type, so callers never
+// dig through alternate field names themselves.
+// ---------------------------------------------------------------------------
+
+/** A JSON response that doesn't have the shape its command promises. */
+export class CLIResponseError extends Error {
+  constructor(
+    readonly command: string,
+    /** JSON pointer to the offending value. */
+    readonly path: string,
+    detail: string,
+  ) {
+    super(`tribe ${command} returned unexpected JSON at ${path || "/"}: ${detail}`);
+    this.name = "CLIResponseError";
+  }
+}
+
+/** Validates and normalizes a parsed response. */
+export type ResponseParser<T> = (raw: unknown, command: string) => T;
+
+/** The command's subcommand words, for messages: "kb search", "query sessions". */
+function describeCommand(args: string[]): string {
+  return args.filter((a) => !a.startsWith("-")).slice(0, 2).join(" ");
+}
+
+/**
+ * Every balanced bracket pair in the text as `[start, end]`, outermost
+ * first. One pass: quotes only count inside brackets, and anything that
+ * can't be valid JSON — a mismatched close, a string running past the end
+ * of its line — drops the brackets still open.
+ */
+function bracketSpans(text: string): Array<[number, number]> {
+  const spans: Array<[number, number]> = [];
+  const open: number[] = [];
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+      else if (ch === "\n") {
+        inString = false;
+        open.length = 0;
+      }
+    } else if (ch === '"') {
+      inString = open.length > 0;
+    } else if (ch === "[" || ch === "{") {
+      open.push(i);
+    } else if (ch === "]" || ch === "}") {
+      const start = open.pop();
+      if (start === undefined) continue;
+      if (text[start] === (ch === "]" ? "[" : "{")) spans.push([start, i]);
+      else open.length = 0;
+    }
+  }
+  return spans.sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * Find the JSON in CLI output. The CLI sometimes writes tips and warnings to
+ * stdout around it, especially under parallel execution, so this takes the
+ * first balanced array or object that parses and ignores the rest.
+ */
+export function extractJSON(stdout: string): unknown {
+  const trimmed = stdout.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Noisy output; look for the JSON inside it
+  }
+  // Brackets inside a span that didn't parse aren't tried on their own, so
+  // each character is parsed at most once
+  let tried = -1;
+  for (const [start, end] of bracketSpans(trimmed)) {
+    if (start <= tried) continue;
+    tried = end;
+    try {
+      return JSON.parse(trimmed.slice(start, end + 1));
+    } catch {
+      // A bracket in a tip, not the JSON
+    }
+  }
+  throw new SyntaxError("No JSON found in output");
+}
+
+// --- Raw schemas -----------------------------------------------------------
+
+/** Optional field the CLI may also send as null. */
+const Maybe = <T extends TSchema>(schema: T) => Type.Optional(Type.Union([schema, Type.Null()]));
+/** Ids and timestamps come as strings or numbers depending on the source. */
+const Scalar = Type.Union([Type.String(), Type.Number()]);
+
+// Local cache: { id, project, event_file }
+// Authenticated API: { conversation_id, tool, project_path, first_event, last_event, duration_minutes }
+const RawSession = Type.Object({
+  id: Maybe(Scalar),
+  conversation_id: Maybe(Scalar),
+  session_id: Maybe(Scalar),
+  tool: Maybe(Type.String()),
+  provider: Maybe(Type.String()),
+  project: Maybe(Type.String()),
+  project_path: Maybe(Type.String()),
+  branch: Maybe(Type.String()),
+  started_at: Maybe(Scalar),
+  startedAt: Maybe(Scalar),
+  first_event: Maybe(Scalar),
+  timestamp: Maybe(Scalar),
+  duration_minutes: Maybe(Type.Number()),
+  duration: Maybe(Scalar),
+  summary: Maybe(Type.String()),
+});
+
+const RawKBDocument = Type.Object({
+  id: Maybe(Scalar),
+  doc_id: Maybe(Scalar),
+  category: Maybe(Type.String()),
+  content: Maybe(Type.String()),
+  text: Maybe(Type.String()),
+  body: Maybe(Type.String()),
+  updated_at: Maybe(Scalar),
+  updatedAt: Maybe(Scalar),
+  created_at: Maybe(Scalar),
+  createdAt: Maybe(Scalar),
+});
+
+// `kb search`: [{ document: { id, content, category, ... }, score, snippet, match_type }]
+const RawKBSearchHit = Type.Object({
+  document: Maybe(RawKBDocument),
+  id: Maybe(Scalar),
+  category: Maybe(Type.String()),
+  content: Maybe(Type.String()),
+  text: Maybe(Type.String()),
+  snippet: Maybe(Type.String()),
+  score: Maybe(Type.Number()),
+  match_type: Maybe(Type.String()),
+});
+
+const RawEvent = Type.Object({
+  id: Maybe(Scalar),
+  event_id: Maybe(Scalar),
+  session_id: Maybe(Scalar),
+  conversation_id: Maybe(Scalar),
+  type: Maybe(Type.String()),
+  event_type: Maybe(Type.String()),
+  kind: Maybe(Type.String()),
+  timestamp: Maybe(Scalar),
+  created_at: Maybe(Scalar),
+  tool: Maybe(Type.String()),
+  content: Maybe(Type.String()),
+  message: Maybe(Type.String()),
+  data: Type.Optional(Type.Unknown()),
+});
+
+const RawInsight = Type.Object({
+  id: Maybe(Scalar),
+  session_id: Maybe(Scalar),
+  conversation_id: Maybe(Scalar),
+  category: Maybe(Type.String()),
+  type: Maybe(Type.String()),
+  summary: Maybe(Type.String()),
+  insight: Maybe(Type.String()),
+  content: Maybe(Type.String()),
+  text: Maybe(Type.String()),
+  created_at: Maybe(Scalar),
+  createdAt: Maybe(Scalar),
+});
+
+const RawMuseAgent = Type.Object({
+  name: Maybe(Type.String()),
+  session: Maybe(Type.String()),
+  id: Maybe(Scalar),
+  status: Maybe(Type.String()),
+  state: Maybe(Type.String()),
+  task: Maybe(Type.String()),
+  prompt: Maybe(Type.String()),
+});
+
+const RawMuseStatus = Type.Object({
+  leader: Maybe(
+    Type.Union([
+      Type.Boolean(),
+      Type.String(),
+      Type.Object({
+        running: Maybe(Type.Boolean()),
+        active: Maybe(Type.Boolean()),
+        status: Maybe(Type.String()),
+        session: Maybe(Type.String()),
+      }),
+    ]),
+  ),
+  leader_running: Maybe(Type.Boolean()),
+  agents: Maybe(Type.Array(RawMuseAgent)),
+  subagents: Maybe(Type.Array(RawMuseAgent)),
+});
+
+const RawAuthStatus = Type.Object({
+  authenticated: Maybe(Type.Boolean()),
+  logged_in: Maybe(Type.Boolean()),
+  user: Maybe(
+    Type.Union([
+      Type.String(),
+      Type.Object({
+        email: Maybe(Type.String()),
+        username: Maybe(Type.String()),
+        name: Maybe(Type.String()),
+      }),
+    ]),
+  ),
+  email: Maybe(Type.String()),
+  username: Maybe(Type.String()),
+  org: Maybe(
+    Type.Union([
+      Type.String(),
+      Type.Object({ name: Maybe(Type.String()), slug: Maybe(Type.String()) }),
+    ]),
+  ),
+  organization: Maybe(Type.String()),
+  team: Maybe(Type.String()),
+  expires_at: Maybe(Scalar),
+  token_expires_at: Maybe(Scalar),
+  expiresAt: Maybe(Scalar),
+});
+
+const RawCircuitTask = Type.Object({
+  id: Maybe(Scalar),
+  issue: Maybe(Scalar),
+  number: Maybe(Scalar),
+  title: Maybe(Type.String()),
+  name: Maybe(Type.String()),
+  status: Maybe(Type.String()),
+  state: Maybe(Type.String()),
+});
+
+const RawCircuitStatus = Type.Object({
+  running: Maybe(Type.Boolean()),
+  active: Maybe(Type.Boolean()),
+  status: Maybe(Type.String()),
+  tasks: Maybe(Type.Array(RawCircuitTask)),
+  issues: Maybe(Type.Array(RawCircuitTask)),
+  agents: Maybe(Type.Array(RawCircuitTask)),
+});
+
+// --- Canonical types -------------------------------------------------------
+
+export interface Session {
+  id: string;
+  tool: string;
+  project: string;
+  branch?: string;
+  startedAt: string;
+  duration?: string;
+  summary?: string;
+}
+
+export interface KBDocument {
+  id: string;
+  category?: string;
+  content: string;
+  updatedAt?: string;
+}
+
+/** A `kb search` result; `content` falls back to the snippet. */
+export interface KBSearchHit extends KBDocument {
+  score?: number;
+  matchType?: string;
+}
+
+export interface SessionEvent {
+  id?: string;
+  sessionId?: string;
+  type: string;
+  timestamp?: string;
+  tool?: string;
+  content?: string;
+}
+
+export interface Insight {
+  id?: string;
+  sessionId?: string;
+  category?: string;
+  summary: string;
+  createdAt?: string;
+}
+
+export interface MuseAgent {
+  name: string;
+  status?: string;
+  task?: string;
+}
+
+export interface MuseStatus {
+  leaderRunning: boolean;
+  leaderSession?: string;
+  agents: MuseAgent[];
+}
+
+export interface AuthStatus {
+  authenticated: boolean;
+  user?: string;
+  org?: string;
+  /** ISO 8601. */
+  expiresAt?: string;
+}
+
+export interface CircuitTask {
+  id: string;
+  title?: string;
+  status?: string;
+}
+
+export interface CircuitStatus {
+  running: boolean;
+  tasks: CircuitTask[];
+}
+
+// --- Normalizers -----------------------------------------------------------
+
+function check<T extends TSchema>(
+  schema: T,
+  value: unknown,
+  command: string,
+  path: string,
+): Static<T> {
+  if (Value.Check(schema, value)) return value;
+  const issue = Value.Errors(schema, value).First();
+  if (!issue) throw new CLIResponseError(command, path, "unexpected value");
+  const got = JSON.stringify(issue.value) ?? String(issue.value);
+  throw new CLIResponseError(
+    command,
+    `${path}${issue.path}`,
+    `${issue.message}, got ${got.length > 60 ? got.slice(0, 60) + "..." : got}`,
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Present, non-empty values as strings; everything else as undefined. */
+function text(value: unknown): string | undefined {
+  return value == null || value === "" ? undefined : String(value);
+}
+
+/**
+ * The items of a list response: a bare array, or an array under one of
+ * `keys` in a wrapper object.
+ */
+function listOf(
+  raw: unknown,
+  keys: string[],
+  command: string,
+): Array<{ item: unknown; path: string }> {
+  if (Array.isArray(raw)) return raw.map((item, i) => ({ item, path: `/${i}` }));
+  if (isRecord(raw)) {
+    const key = keys.find((k) => Array.isArray(raw[k]));
+    if (key) return (raw[key] as unknown[]).map((item, i) => ({ item, path: `/${key}/${i}` }));
+  }
+  throw new CLIResponseError(command, "", `expected a list or an object with ${keys.join(", ")}`);
+}
+
+function toSession(raw: unknown, command: string, path: string): Session {
+  const s = check(RawSession, raw, command, path);
+  return {
+    id: text(s.id ?? s.conversation_id ?? s.session_id) ?? "",
+    tool: text(s.tool ?? s.provider) ?? "unknown",
+    project: text(s.project ?? s.project_path) ?? "",
+    branch: text(s.branch),
+    startedAt: text(s.started_at ?? s.startedAt ?? s.first_event ?? s.timestamp) ?? "",
+    duration: s.duration_minutes != null ? `${s.duration_minutes}m` : text(s.duration),
+    summary: text(s.summary),
+  };
+}
+
+function toKBDocument(raw: unknown, command: string, path: string): KBDocument {
+  // `kb get` wraps the document; `kb list` items may or may not
+  const nested = isRecord(raw) && isRecord(raw.document);
+  const docPath = nested ? `${path}/document` : path;
+  const value = nested ? (raw as Record<string, unknown>).document : raw;
+  const doc = check(RawKBDocument, value, command, docPath);
+  const id = text(doc.id ?? doc.doc_id);
+  if (!id) throw new CLIResponseError(command, docPath, "document has no id");
+  return {
+    id,
+    category: text(doc.category),
+    content: doc.content ?? doc.text ?? doc.body ?? "",
+    updatedAt: text(doc.updated_at ?? doc.updatedAt ?? doc.created_at ?? doc.createdAt),
+  };
+}
+
+function toKBSearchHit(raw: unknown, command: string, path: string): KBSearchHit {
+  const hit = check(RawKBSearchHit, raw, command, path);
+  const doc = hit.document ?? {};
+  return {
+    id: text(doc.id ?? doc.doc_id ?? hit.id) ?? "",
+    category: text(doc.category ?? hit.category),
+    content: doc.content ?? hit.snippet ?? hit.content ?? hit.text ?? "",
+    updatedAt: text(doc.updated_at ?? doc.updatedAt ?? doc.created_at ?? doc.createdAt),
+    score: hit.score ?? undefined,
+    matchType: text(hit.match_type),
+  };
+}
+
+function toEvent(raw: unknown, command: string, path: string): SessionEvent {
+  const e = check(RawEvent, raw, command, path);
+  return {
+    id: text(e.id ?? e.event_id),
+    sessionId: text(e.session_id ?? e.conversation_id),
+    type: text(e.type ?? e.event_type ?? e.kind) ?? "event",
+    timestamp: text(e.timestamp ?? e.created_at),
+    tool: text(e.tool),
+    content: text(e.content ?? e.message) ?? (e.data != null ? JSON.stringify(e.data) : undefined),
+  };
+}
+
+function toInsight(raw: unknown, command: string, path: string): Insight {
+  const i = check(RawInsight, raw, command, path);
+  return {
+    id: text(i.id),
+    sessionId: text(i.session_id ?? i.conversation_id),
+    category: text(i.category ?? i.type),
+    summary: i.summary ?? i.insight ?? i.content ?? i.text ?? "",
+    createdAt: text(i.created_at ?? i.createdAt),
+  };
+}
+
+function toMuseAgent(agent: Static<typeof RawMuseAgent>): MuseAgent {
+  return {
+    name: text(agent.name ?? agent.session ?? agent.id) ?? "unknown",
+    status: text(agent.status ?? agent.state),
+    task: text(agent.task ?? agent.prompt),
+  };
+}
+
+function toCircuitTask(task: Static<typeof RawCircuitTask>): CircuitTask {
+  return {
+    id: text(task.id ?? task.issue ?? task.number) ?? "",
+    title: text(task.title ?? task.name),
+    status: text(task.status ?? task.state),
+  };
+}
+
+/** `query sessions` and `sessions list`. */
+export const parseSessions: ResponseParser<Session[]> = (raw, command) =>
+  listOf(raw, ["sessions", "items", "results"], command).map(({ item, path }) =>
+    toSession(item, command, path),
+  );
+
+/** `kb list`. */
+export const parseKBDocuments: ResponseParser<KBDocument[]> = (raw, command) =>
+  listOf(raw, ["documents", "items", "results"], command).map(({ item, path }) =>
+    toKBDocument(item, command, path),
+  );
+
+/** `kb get`. */
+export const parseKBDocument: ResponseParser<KBDocument> = (raw, command) =>
+  toKBDocument(raw, command, "");
+
+/** `kb search`. */
+export const parseKBSearchHits: ResponseParser<KBSearchHit[]> = (raw, command) =>
+  listOf(raw, ["results", "documents", "items"], command).map(({ item, path }) =>
+    toKBSearchHit(item, command, path),
+  );
+
+/** `query events`. */
+export const parseEvents: ResponseParser<SessionEvent[]> = (raw, command) =>
+  listOf(raw, ["events", "items", "results"], command).map(({ item, path }) =>
+    toEvent(item, command, path),
+  );
+
+/** `query insights`. */
+export const parseInsights: ResponseParser<Insight[]> = (raw, command) =>
+  listOf(raw, ["insights", "items", "results"], command).map(({ item, path }) =>
+    toInsight(item, command, path),
+  );
+
+/** `muse agents`. */
+export const parseMuseAgents: ResponseParser<MuseAgent[]> = (raw, command) =>
+  listOf(raw, ["agents", "subagents", "items"], command).map(({ item, path }) =>
+    toMuseAgent(check(RawMuseAgent, item, command, path)),
+  );
+
+/** `muse status`. */
+export const parseMuseStatus: ResponseParser<MuseStatus> = (raw, command) => {
+  const status = check(RawMuseStatus, raw, command, "");
+  const { leader } = status;
+  const leaderRunning =
+    typeof leader === "boolean"
+      ? leader
+      : typeof leader === "string"
+        ? leader === "running"
+        : leader
+          ? Boolean(leader.running ?? leader.active ?? leader.status === "running")
+          : Boolean(status.leader_running);
+  return {
+    leaderRunning,
+    leaderSession: isRecord(leader) ? text(leader.session) : undefined,
+    agents: (status.agents ?? status.subagents ?? []).map(toMuseAgent),
+  };
+};
+
+/** `circuit status`. */
+export const parseCircuitStatus: ResponseParser<CircuitStatus> = (raw, command) => {
+  const status = check(RawCircuitStatus, raw, command, "");
+  return {
+    running: status.running ?? status.active ?? status.status === "running",
+    tasks: (status.tasks ?? status.issues ?? status.agents ?? []).map(toCircuitTask),
+  };
+};
+
+/** Epoch seconds or milliseconds, or a date string, as ISO 8601. */
+function toISODate(value: string | number | null | undefined): string | undefined {
+  if (value == null || value === "") return undefined;
+  const ms = typeof value === "number" ? (value < 1e12 ? value * 1000 : value) : Date.parse(value);
+  return Number.isNaN(ms) ? undefined : new Date(ms).toISOString();
+}
+
+/** `status --format json`. */
+export const parseAuthStatus: ResponseParser<AuthStatus> = (raw, command) => {
+  const status = check(RawAuthStatus, raw, command, "");
+  const user =
+    typeof status.user === "string"
+      ? status.user
+      : text(status.user?.email ?? status.user?.username ?? status.user?.name) ??
+        text(status.email ?? status.username);
+  const org =
+    typeof status.org === "string"
+      ? status.org
+      : text(status.org?.name ?? status.org?.slug) ?? text(status.organization ?? status.team);
+  const authenticated = status.authenticated ?? status.logged_in ?? (user ? true : undefined);
+  if (authenticated === undefined) {
+    throw new CLIResponseError(command, "", "no authenticated, logged_in or user field");
+  }
+  return {
+    authenticated,
+    user: text(user),
+    org: text(org),
+    expiresAt: toISODate(status.expires_at ?? status.token_expires_at ?? status.expiresAt),
+  };
+};
+
+/** `status` in text, for CLIs without JSON status output. */
+export function parseAuthText(stdout: string): AuthStatus {
+  const field = (pattern: RegExp) => stdout.match(pattern)?.[1]?.trim() || undefined;
+  return {
+    authenticated: !/Not logged in|Not authenticated|Skip-auth/i.test(stdout),
+    user: field(/Logged in as\s+(\S+)/i) ?? field(/^\s*(?:User|Email|Account):\s*(.+)$/im),
+    org: field(/^\s*(?:Org|Organi[sz]ation|Team):\s*(.+)$/im),
+    expiresAt: toISODate(field(/^\s*(?:Token )?Expires(?: at)?:\s*(.+)$/im)),
+  };
+}
@@ -0,0 +1,81 @@
+import { execFile } from "node:child_process";
+import { basename, resolve, sep } from "node:path";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface WorkspaceInfo {
+  /** Git repository root, or the workspace directory itself outside a repo. */
+  root: string;
+  /** Current branch; undefined outside a repo or on a detached HEAD. */
+  branch?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Git helpers — local and fast, but still bounded so a hung git (e.g. a
+// network filesystem) can't stall context injection.
+// ---------------------------------------------------------------------------
+
+const GIT_TIMEOUT_MS = 1_000;
+
+/**
+ * Run a git command in `cwd`. Resolves to trimmed stdout, or `null` when git
+ * fails, times out, or `cwd` is not a repository.
+ */
+export function git(args: string[], cwd: string): Promise<string | null> {
+  return new Promise((resolvePromise) => {
+    execFile(
+      "git",
+      args,
+      {
+        cwd,
+        timeout: GIT_TIMEOUT_MS,
+        env: { ...process.env, NO_COLOR: "1", GIT_OPTIONAL_LOCKS: "0" },
+      },
+      (error, stdout) => {
+        resolvePromise(error ? null : stdout.trim());
+      },
+    );
+  });
+}
+
+function stripTrailingSeparators(path: string): string {
+  return path.replace(/[\\/]+$/, "");
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve the repository the agent is working in. Never throws — outside a
+ * git repo the workspace directory itself is used as the root.
+ */
+export async function resolveWorkspace(dir: string): Promise<WorkspaceInfo> {
+  const [root, branch] = await Promise.all([
+    git(["rev-parse", "--show-toplevel"], dir),
+    git(["rev-parse", "--abbrev-ref", "HEAD"], dir),
+  ]);
+
+  return {
+    root: root || resolve(dir),
+    branch: branch && branch !== "HEAD" ? branch : undefined,
+  };
+}
+
+/**
+ * Check whether a TRIBE session's project belongs to the workspace.
+ * Sessions from the authenticated API carry a full path; local cache
+ * entries sometimes carry only the project folder name.
+ */
+export function isWorkspaceProject(project: string, workspace: WorkspaceInfo): boolean {
+  if (!project) return false;
+
+  const normalized = stripTrailingSeparators(project);
+  const root = stripTrailingSeparators(workspace.root);
+  if (normalized === root || normalized.startsWith(root + sep)) return true;
+
+  const isBareName = !normalized.includes("/") && !normalized.includes("\\");
+  return isBareName && normalized === basename(root);
+}